@@ -1,6 +1,15 @@
 import type { NextConfig } from "next";
+import fs from "fs";
+import path from "path";
+
+// Lets client components know whether the /api/posts routes can serve a local posts folder
+const localPostsPath = path.resolve(process.cwd(), process.env.LOCAL_POSTS_PATH || "posts");
+const localPostsAvailable = fs.existsSync(localPostsPath) && fs.statSync(localPostsPath).isDirectory();
 
 const nextConfig: NextConfig = {
+  env: {
+    NEXT_PUBLIC_LOCAL_POSTS_AVAILABLE: localPostsAvailable ? "true" : "false",
+  },
   eslint: {
     ignoreDuringBuilds: true,
   },
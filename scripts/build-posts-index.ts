@@ -0,0 +1,112 @@
+/**
+ * Builds a compact, sharded index of a posts directory so the feed can show
+ * previews without downloading every MDX file.
+ *
+ * Usage: npm run build:index -- [postsDir] [--shard-size=100]
+ */
+import fs from 'fs';
+import path from 'path';
+import crypto from 'crypto';
+import { parsePost } from '../src/lib/mdx-parser';
+import { sortPostFiles } from '../src/lib/post-files';
+import {
+  createIndexEntry,
+  POSTS_INDEX_DIR,
+  POSTS_INDEX_MANIFEST,
+  POSTS_INDEX_VERSION,
+} from '../src/lib/posts-index';
+import { PostDiagnostic, PostIndexEntry, PostIndexManifest } from '../src/types/post';
+
+const DEFAULT_SHARD_SIZE = 100;
+
+// Same hash git uses for blobs, so entries can be compared with tree listings
+function gitBlobSha(content: Buffer): string {
+  return crypto
+    .createHash('sha1')
+    .update(`blob ${content.length}\0`)
+    .update(content)
+    .digest('hex');
+}
+
+function findPostFiles(dir: string, root: string): Array<{ name: string; path: string; fullPath: string }> {
+  const files: Array<{ name: string; path: string; fullPath: string }> = [];
+
+  for (const entry of fs.readdirSync(dir, { withFileTypes: true })) {
+    const fullPath = path.join(dir, entry.name);
+    if (entry.isDirectory()) {
+      if (entry.name !== POSTS_INDEX_DIR) {
+        files.push(...findPostFiles(fullPath, root));
+      }
+    } else if (entry.name.endsWith('.mdx')) {
+      files.push({
+        name: entry.name,
+        path: path.relative(root, fullPath).split(path.sep).join('/'),
+        fullPath,
+      });
+    }
+  }
+
+  return files;
+}
+
+function main() {
+  const args = process.argv.slice(2);
+  const postsDir = path.resolve(args.find(arg => !arg.startsWith('--')) || 'posts');
+  const shardSizeArg = args.find(arg => arg.startsWith('--shard-size='));
+  const shardSize = shardSizeArg ? parseInt(shardSizeArg.split('=')[1]) || DEFAULT_SHARD_SIZE : DEFAULT_SHARD_SIZE;
+
+  if (!fs.existsSync(postsDir) || !fs.statSync(postsDir).isDirectory()) {
+    console.error(`Posts directory not found: ${postsDir}`);
+    process.exit(1);
+  }
+
+  const files = sortPostFiles(findPostFiles(postsDir, postsDir));
+  const entries: PostIndexEntry[] = [];
+  const diagnostics: PostDiagnostic[] = [];
+  let skipped = 0;
+
+  for (const file of files) {
+    const buffer = fs.readFileSync(file.fullPath);
+    const { post, diagnostics: fileDiagnostics } = parsePost(buffer.toString('utf-8'), file.name, file.path);
+    diagnostics.push(...fileDiagnostics);
+    if (!post) {
+      skipped++;
+      continue;
+    }
+    entries.push(createIndexEntry(post, file.path, gitBlobSha(buffer)));
+  }
+
+  const indexDir = path.join(postsDir, POSTS_INDEX_DIR);
+  fs.rmSync(indexDir, { recursive: true, force: true });
+  fs.mkdirSync(indexDir, { recursive: true });
+
+  const shards: string[] = [];
+  const paths: Record<string, number> = {};
+  for (let start = 0; start < entries.length; start += shardSize) {
+    const name = `${shards.length}.json`;
+    const shardEntries = entries.slice(start, start + shardSize);
+    fs.writeFileSync(path.join(indexDir, name), JSON.stringify(shardEntries));
+    shardEntries.forEach(entry => { paths[entry.path] = shards.length; });
+    shards.push(name);
+  }
+
+  const manifest: PostIndexManifest = {
+    version: POSTS_INDEX_VERSION,
+    generatedAt: new Date().toISOString(),
+    total: entries.length,
+    shardSize,
+    shards,
+    paths,
+  };
+  fs.writeFileSync(path.join(indexDir, POSTS_INDEX_MANIFEST), JSON.stringify(manifest, null, 2));
+
+  console.log(`Indexed ${entries.length} posts into ${shards.length} shards at ${indexDir}`);
+  for (const diagnostic of diagnostics) {
+    console.warn(`${diagnostic.severity}: ${diagnostic.path}${diagnostic.field ? ` (${diagnostic.field})` : ''}: ${diagnostic.message}`);
+  }
+  if (skipped > 0) {
+    console.warn(`Skipped ${skipped} files that could not be parsed`);
+  }
+}
+
+main();
@@ -0,0 +1,31 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { defaultConfig } from '@/lib/config';
+import { LocalSource, LocalSourceError } from '@/lib/sources/local-source';
+
+export const dynamic = 'force-dynamic';
+
+export async function GET(
+  _request: NextRequest,
+  { params }: { params: Promise<{ path: string[] }> }
+) {
+  if (!LocalSource.isAvailable()) {
+    return NextResponse.json({ error: 'Local posts folder not found' }, { status: 404 });
+  }
+
+  const { path } = await params;
+
+  try {
+    const source = new LocalSource({ ...defaultConfig, source: 'local' });
+    const content = await source.getFileContent(path.join('/'));
+
+    return new NextResponse(content, {
+      headers: { 'Content-Type': 'text/markdown; charset=utf-8' },
+    });
+  } catch (error) {
+    const status = error instanceof LocalSourceError && error.status ? error.status : 500;
+    return NextResponse.json(
+      { error: error instanceof Error ? error.message : 'Error reading local file' },
+      { status }
+    );
+  }
+}
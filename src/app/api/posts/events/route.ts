@@ -0,0 +1,64 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { defaultConfig } from '@/lib/config';
+import { LocalSource } from '@/lib/sources/local-source';
+import { PostChange } from '@/types/source';
+
+export const dynamic = 'force-dynamic';
+
+// Keeps proxies from closing an idle stream
+const HEARTBEAT_INTERVAL = 25000;
+
+export async function GET(request: NextRequest) {
+  if (!LocalSource.isAvailable()) {
+    return NextResponse.json({ error: 'Local posts folder not found' }, { status: 404 });
+  }
+
+  const source = new LocalSource({ ...defaultConfig, source: 'local' });
+  const encoder = new TextEncoder();
+  let cleanup = () => {};
+
+  const stream = new ReadableStream({
+    start(controller) {
+      const send = (chunk: string) => {
+        try {
+          controller.enqueue(encoder.encode(chunk));
+        } catch (error) {
+          // The client went away between the change and the write
+          cleanup();
+        }
+      };
+
+      const unsubscribe = source.subscribeChanges((change: PostChange) => {
+        send(`data: ${JSON.stringify(change)}\n\n`);
+      });
+      const heartbeat = setInterval(() => send(': ping\n\n'), HEARTBEAT_INTERVAL);
+
+      cleanup = () => {
+        unsubscribe();
+        clearInterval(heartbeat);
+      };
+
+      request.signal.addEventListener('abort', () => {
+        cleanup();
+        try {
+          controller.close();
+        } catch (error) {
+          // Already closed
+        }
+      });
+
+      send(': connected\n\n');
+    },
+    cancel() {
+      cleanup();
+    },
+  });
+
+  return new Response(stream, {
+    headers: {
+      'Content-Type': 'text/event-stream',
+      'Cache-Control': 'no-cache, no-transform',
+      Connection: 'keep-alive',
+    },
+  });
+}
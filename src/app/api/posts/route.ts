@@ -0,0 +1,27 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { defaultConfig } from '@/lib/config';
+import { LocalSource } from '@/lib/sources/local-source';
+
+export const dynamic = 'force-dynamic';
+
+export async function GET(request: NextRequest) {
+  if (!LocalSource.isAvailable()) {
+    return NextResponse.json({ error: 'Local posts folder not found' }, { status: 404 });
+  }
+
+  const { searchParams } = request.nextUrl;
+  const page = Math.max(1, parseInt(searchParams.get('page') || '1') || 1);
+  const pageSize = Math.min(50, Math.max(1, parseInt(searchParams.get('pageSize') || '10') || 10));
+  const concurrency = parseInt(searchParams.get('concurrency') || '') || undefined;
+
+  try {
+    const source = new LocalSource({ ...defaultConfig, source: 'local', concurrency });
+    return NextResponse.json(await source.getPosts(page, pageSize));
+  } catch (error) {
+    console.error('Error serving local posts:', error);
+    return NextResponse.json(
+      { error: error instanceof Error ? error.message : 'Error reading local posts' },
+      { status: 500 }
+    );
+  }
+}
@@ -6,6 +6,7 @@ import { Post } from '@/types/post';
 import { PostLoader } from '@/lib/post-loader';
 import { getConfig } from '@/lib/config';
 import { parseMDXContent } from '@/lib/mdx-parser';
+import { findTombstone, PostTombstone } from '@/lib/post-history';
 import { PostDetailView } from '@/components/post-detail-view';
 import { Loader2, ArrowLeft, AlertCircle } from 'lucide-react';
 
@@ -15,6 +16,7 @@ export default function PostDetailPage() {
   const [post, setPost] = useState<Post | null>(null);
   const [loading, setLoading] = useState(true);
   const [error, setError] = useState<string>('');
+  const [tombstone, setTombstone] = useState<PostTombstone | undefined>();
 
   useEffect(() => {
     const loadPost = async () => {
@@ -30,8 +32,20 @@ export default function PostDetailPage() {
         }
         const decodedPath = decodeURIComponent(postId);
         
-        // Fetch the post content
-        const content = await postLoader.getFileContent(decodedPath);
+        // Fetch the post content, falling back to its history when it was deleted
+        let content: string;
+        try {
+          content = await postLoader.getFileContent(decodedPath);
+        } catch (err) {
+          const deleted = postLoader.getCapabilities().history
+            ? await findTombstone(postLoader, decodedPath).catch(() => null)
+            : null;
+          if (!deleted) {
+            throw err;
+          }
+          setTombstone(deleted);
+          content = deleted.content;
+        }
         const fileName = decodedPath.split('/').pop() || '';
         const parsedPost = parseMDXContent(content, fileName, decodedPath);
         
@@ -112,7 +126,7 @@ export default function PostDetailPage() {
 
       {/* Content */}
       <main className="max-w-4xl mx-auto px-4 py-6">
-        <PostDetailView post={post} />
+        <PostDetailView post={post} tombstone={tombstone} />
       </main>
     </div>
   );
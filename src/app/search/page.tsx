@@ -0,0 +1,150 @@
+'use client';
+
+import { useEffect, useMemo, useState } from 'react';
+import { useRouter } from 'next/navigation';
+import { formatDistanceToNow } from 'date-fns';
+import { PostLoader } from '@/lib/post-loader';
+import { getConfig } from '@/lib/config';
+import { getSearchIndex } from '@/lib/search-index';
+import { matchExcerpt } from '@/lib/search';
+import { useSearch } from '@/hooks/use-search';
+import { Highlight } from '@/components/highlight';
+import { Loader2, ArrowLeft, AlertCircle, Search, Database } from 'lucide-react';
+
+export default function SearchPage() {
+  const router = useRouter();
+  const [query, setQuery] = useState('');
+  const config = useMemo(() => getConfig(), []);
+  const postLoader = useMemo(() => new PostLoader(config), [config]);
+  const searchIndex = useMemo(() => getSearchIndex(config), [config]);
+  const { results, indexedCount, indexing, complete, error, pausedUntil, indexAll } = useSearch(postLoader, searchIndex, query);
+
+  // The query lives in the URL so searches can be shared and survive going back from a post
+  useEffect(() => {
+    setQuery(new URLSearchParams(window.location.search).get('q') || '');
+  }, []);
+
+  const handleQueryChange = (value: string) => {
+    setQuery(value);
+    const params = new URLSearchParams(window.location.search);
+    if (value) {
+      params.set('q', value);
+    } else {
+      params.delete('q');
+    }
+    const search = params.toString();
+    window.history.replaceState(null, '', `${window.location.pathname}${search ? `?${search}` : ''}`);
+  };
+
+  const handleResultClick = (path: string) => {
+    // Keeps q along with ref/snapshot parameters, so the post highlights the matches
+    router.push(`/post/${encodeURIComponent(path)}${window.location.search}`);
+  };
+
+  const formatDate = (dateString: string) => {
+    try {
+      return formatDistanceToNow(new Date(dateString), { addSuffix: true });
+    } catch (error) {
+      return 'Unknown date';
+    }
+  };
+
+  return (
+    <div className="min-h-screen bg-gray-50">
+      {/* Header */}
+      <header className="bg-white border-b border-gray-200 sticky top-0 z-40">
+        <div className="max-w-4xl mx-auto px-4 py-4">
+          <div className="flex items-center gap-3">
+            <button
+              onClick={() => router.back()}
+              className="p-2 text-gray-600 hover:text-gray-800 hover:bg-gray-100 rounded-lg transition-colors"
+              title="Go back"
+            >
+              <ArrowLeft className="w-5 h-5" />
+            </button>
+            <div className="flex-1 relative">
+              <Search className="w-4 h-4 text-gray-400 absolute left-3 top-1/2 -translate-y-1/2" />
+              <input
+                type="search"
+                value={query}
+                onChange={event => handleQueryChange(event.target.value)}
+                placeholder="Search titles, posts, authors and feeds"
+                autoFocus
+                className="w-full pl-9 pr-3 py-2 text-sm border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-blue-500"
+              />
+            </div>
+          </div>
+          <div className="flex items-center justify-between gap-3 mt-2 text-sm text-gray-600">
+            <span>
+              {query.trim() ? `${results.length} result${results.length === 1 ? '' : 's'} in ` : ''}
+              {indexedCount} indexed post{indexedCount === 1 ? '' : 's'}
+            </span>
+            {!complete && (
+              <button
+                onClick={indexAll}
+                disabled={indexing}
+                className="inline-flex items-center gap-2 px-3 py-1.5 text-gray-600 hover:text-gray-800 disabled:opacity-50 disabled:cursor-not-allowed"
+                title="Load every post so all of them can be found"
+              >
+                {indexing ? <Loader2 className="w-4 h-4 animate-spin" /> : <Database className="w-4 h-4" />}
+                {indexing ? 'Indexing...' : pausedUntil !== null ? 'Resume indexing' : 'Index all posts'}
+              </button>
+            )}
+          </div>
+        </div>
+      </header>
+
+      <main className="max-w-4xl mx-auto px-4 py-6 space-y-4">
+        {error && (
+          <div className="bg-red-50 border border-red-200 rounded-lg p-4 flex items-start gap-2 text-sm text-red-700">
+            <AlertCircle className="w-4 h-4 flex-shrink-0 mt-0.5" />
+            <span>{error}</span>
+          </div>
+        )}
+
+        {pausedUntil !== null && !indexing && (
+          <div className="bg-yellow-50 border border-yellow-200 rounded-lg p-4 flex items-start gap-2 text-sm text-yellow-800">
+            <AlertCircle className="w-4 h-4 flex-shrink-0 mt-0.5" />
+            <span>
+              Indexing paused to keep the API rate limit for browsing. The {indexedCount} posts indexed so far are saved;
+              {pausedUntil > 0 ? ` resume after ${new Date(pausedUntil).toLocaleTimeString()}.` : ' resume later.'}
+            </span>
+          </div>
+        )}
+
+        {results.map(({ document }) => (
+          <button
+            key={document.path}
+            onClick={() => handleResultClick(document.path)}
+            className="block w-full text-left bg-white rounded-lg border border-gray-200 shadow-sm hover:shadow-md transition-shadow p-4"
+          >
+            <h2 className="font-semibold text-gray-900">
+              <Highlight text={document.title} query={query} />
+            </h2>
+            <div className="flex items-center gap-2 flex-wrap mt-1 text-xs text-gray-500">
+              <span><Highlight text={document.author} query={query} /></span>
+              <span>•</span>
+              <span className="bg-gray-100 px-2 py-0.5 rounded">
+                <Highlight text={document.feedName} query={query} />
+              </span>
+              <span>•</span>
+              <time dateTime={document.date}>{formatDate(document.date)}</time>
+            </div>
+            {document.body && (
+              <p className="mt-2 text-sm text-gray-700 leading-relaxed">
+                <Highlight text={matchExcerpt(document.body, query)} query={query} />
+              </p>
+            )}
+          </button>
+        ))}
+
+        {query.trim() && results.length === 0 && (
+          <p className="text-center text-gray-500 py-6">
+            No posts match &ldquo;{query.trim()}&rdquo;.
+            {!complete && ' Posts that haven’t been loaded yet aren’t searched; index all posts to include them.'}
+          </p>
+        )}
+      </main>
+    </div>
+  );
+}
@@ -0,0 +1,110 @@
+'use client';
+
+import { useMemo } from 'react';
+import { useParams, useRouter } from 'next/navigation';
+import { PostLoader } from '@/lib/post-loader';
+import { getConfig } from '@/lib/config';
+import { getSearchIndex, getSearchScope } from '@/lib/search-index';
+import { normalizeTag } from '@/lib/tags';
+import { useTaggedPosts } from '@/hooks/use-tagged-posts';
+import { PostCard } from '@/components/post-card';
+import { TagCloud } from '@/components/tag-cloud';
+import { Loader2, ArrowLeft, AlertCircle, Hash, History } from 'lucide-react';
+
+export default function TagPage() {
+  const params = useParams();
+  const router = useRouter();
+  const rawTag = Array.isArray(params.tag) ? params.tag[0] : params.tag;
+  const tag = normalizeTag(decodeURIComponent(rawTag || ''));
+  const config = useMemo(() => getConfig(), []);
+  const postLoader = useMemo(() => new PostLoader(config), [config]);
+  // Scanned posts are loaded anyway, which is as good as indexing them for search
+  const searchIndex = useMemo(() => getSearchIndex(config), [config]);
+  const archiveKey = useMemo(() => getSearchScope(config), [config]);
+  const { posts, tagCounts, scanned, hasMore, loading, paused, error, scanMore } =
+    useTaggedPosts(postLoader, tag, archiveKey, searchIndex);
+
+  return (
+    <div className="min-h-screen bg-gray-50">
+      {/* Header */}
+      <header className="bg-white border-b border-gray-200 sticky top-0 z-40">
+        <div className="max-w-4xl mx-auto px-4 py-4">
+          <div className="flex items-center gap-3">
+            <button
+              onClick={() => router.back()}
+              className="p-2 text-gray-600 hover:text-gray-800 hover:bg-gray-100 rounded-lg transition-colors"
+              title="Go back"
+            >
+              <ArrowLeft className="w-5 h-5" />
+            </button>
+            <div>
+              <h1 className="text-lg font-semibold text-gray-900 flex items-center gap-1">
+                <Hash className="w-5 h-5 text-gray-400" />
+                {tag}
+              </h1>
+              <p className="text-sm text-gray-600">
+                {posts.length} post{posts.length === 1 ? '' : 's'}
+                {scanned > 0 && ` • ${hasMore ? `newest ${scanned}` : `all ${scanned}`} posts scanned`}
+              </p>
+            </div>
+          </div>
+        </div>
+      </header>
+
+      <main className="max-w-4xl mx-auto px-4 py-6 space-y-6">
+        {/* Tag cloud */}
+        <section className="bg-white rounded-lg border border-gray-200 p-4">
+          <h2 className="text-sm font-medium text-gray-700 mb-3">Tags</h2>
+          <TagCloud tags={tagCounts} activeTag={tag} />
+        </section>
+
+        {error && (
+          <div className="bg-red-50 border border-red-200 rounded-lg p-4 flex items-start gap-2 text-sm text-red-700">
+            <AlertCircle className="w-4 h-4 flex-shrink-0 mt-0.5" />
+            <span>{error}</span>
+          </div>
+        )}
+
+        <div className="space-y-4">
+          {posts.map(post => (
+            <PostCard key={post.path} post={post} />
+          ))}
+        </div>
+
+        {paused && !loading && (
+          <div className="bg-yellow-50 border border-yellow-200 rounded-lg p-4 flex items-start gap-2 text-sm text-yellow-800">
+            <AlertCircle className="w-4 h-4 flex-shrink-0 mt-0.5" />
+            <span>Scanning paused to keep the API rate limit for browsing. Try scanning older posts again later.</span>
+          </div>
+        )}
+
+        {loading ? (
+          <div className="flex items-center justify-center gap-2 py-6 text-gray-600">
+            <Loader2 className="w-5 h-5 animate-spin" />
+            <span>Looking for posts tagged #{tag}...</span>
+          </div>
+        ) : (
+          <>
+            {!error && posts.length === 0 && (
+              <p className="text-center text-gray-500 py-6">
+                No {hasMore ? 'recent ' : ''}posts are tagged #{tag}.
+              </p>
+            )}
+            {hasMore && (
+              <div className="flex justify-center">
+                <button
+                  onClick={scanMore}
+                  className="inline-flex items-center gap-2 px-4 py-2 text-sm text-gray-600 hover:text-gray-800 hover:bg-gray-100 rounded-lg transition-colors"
+                  title="Look through the next older posts for this tag"
+                >
+                  <History className="w-4 h-4" />
+                  Scan older posts
+                </button>
+              </div>
+            )}
+          </>
+        )}
+      </main>
+    </div>
+  );
+}
@@ -1,9 +1,10 @@
 'use client';
 
-import { useState } from 'react';
+import { useState, useEffect } from 'react';
 import { Database, X, Trash2, Info } from 'lucide-react';
 import { PostLoader } from '@/lib/post-loader';
 import { persistentCache } from '@/lib/persistent-cache';
+import { PostSourceStats } from '@/types/source';
 
 interface CacheStatusProps {
   githubAPI: PostLoader;
@@ -11,6 +12,17 @@ interface CacheStatusProps {
 
 export function CacheStatus({ githubAPI }: CacheStatusProps) {
   const [isOpen, setIsOpen] = useState(false);
+  const [stats, setStats] = useState<PostSourceStats>(githubAPI.getStats());
+
+  // Keep source stats live while the panel is open
+  useEffect(() => {
+    if (!isOpen) {
+      return;
+    }
+
+    setStats(githubAPI.getStats());
+    return githubAPI.subscribeStats(setStats);
+  }, [githubAPI, isOpen]);
 
   const handleClearMemoryCache = () => {
     githubAPI.clearCache();
@@ -40,9 +52,8 @@ export function CacheStatus({ githubAPI }: CacheStatusProps) {
     );
   }
 
-  const memoryCache = githubAPI.getCacheInfo();
+  const { cache: memoryCache, rateLimit: rateLimitInfo, queue: queueState } = stats;
   const persistentCacheStats = persistentCache.getStats();
-  const rateLimitInfo = githubAPI.getRateLimitInfo();
 
   return (
     <div className="fixed bottom-4 right-4 bg-white border border-gray-200 rounded-lg shadow-lg p-4 max-w-sm w-full z-40">
@@ -61,16 +72,18 @@ export function CacheStatus({ githubAPI }: CacheStatusProps) {
       </div>
 
       {/* Memory Cache */}
-      <div className="mb-4">
-        <h4 className="text-sm font-medium text-gray-700 mb-2">Memory Cache</h4>
-        <div className="text-xs text-gray-600 space-y-1">
-          <div>Entries: {memoryCache.size}</div>
-          <div>Oldest: {memoryCache.entries.length > 0 ? 
-            Math.round(Math.max(...memoryCache.entries.map(e => e.age)) / 1000 / 60) + 'm ago' : 
-            'None'
-          }</div>
+      {memoryCache && (
+        <div className="mb-4">
+          <h4 className="text-sm font-medium text-gray-700 mb-2">Memory Cache</h4>
+          <div className="text-xs text-gray-600 space-y-1">
+            <div>Entries: {memoryCache.size}</div>
+            <div>Oldest: {memoryCache.entries.length > 0 ? 
+              Math.round(Math.max(...memoryCache.entries.map(e => e.age)) / 1000 / 60) + 'm ago' : 
+              'None'
+            }</div>
+          </div>
         </div>
-      </div>
+      )}
 
       {/* Persistent Cache */}
       <div className="mb-4">
@@ -86,16 +99,36 @@ export function CacheStatus({ githubAPI }: CacheStatusProps) {
       </div>
 
       {/* Rate Limit */}
-      <div className="mb-4">
-        <h4 className="text-sm font-medium text-gray-700 mb-2">GitHub API</h4>
-        <div className="text-xs text-gray-600 space-y-1">
-          <div>Remaining: {rateLimitInfo.remaining}/60</div>
-          <div>Reset: {rateLimitInfo.resetTime > 0 ? 
-            new Date(rateLimitInfo.resetTime * 1000).toLocaleTimeString() : 
-            'Unknown'
-          }</div>
+      {rateLimitInfo && (
+        <div className="mb-4">
+          <h4 className="text-sm font-medium text-gray-700 mb-2">GitHub API</h4>
+          <div className="text-xs text-gray-600 space-y-1">
+            <div>Auth: {rateLimitInfo.authenticated ? 'Personal access token' : 'Anonymous'}</div>
+            <div>Remaining: {rateLimitInfo.remaining}/{rateLimitInfo.limit} per hour</div>
+            <div>Reset: {rateLimitInfo.resetTime > 0 ? 
+              new Date(rateLimitInfo.resetTime * 1000).toLocaleTimeString() : 
+              'Unknown'
+            }</div>
+          </div>
         </div>
-      </div>
+      )}
+
+      {/* Request Queue */}
+      {queueState && (
+        <div className="mb-4">
+          <h4 className="text-sm font-medium text-gray-700 mb-2">Request Queue</h4>
+          <div className="text-xs text-gray-600 space-y-1">
+            <div>In flight: {queueState.inFlight}</div>
+            <div>Waiting: {queueState.pending.user} user, {queueState.pending.background} background</div>
+            <div>Retries: {queueState.retries}</div>
+            {queueState.pausedUntil > 0 && (
+              <div className="text-amber-700">
+                Paused until {new Date(queueState.pausedUntil).toLocaleTimeString()} ({queueState.pauseReason})
+              </div>
+            )}
+          </div>
+        </div>
+      )}
 
       {/* Actions */}
       <div className="space-y-2">
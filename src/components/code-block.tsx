@@ -0,0 +1,89 @@
+'use client';
+
+import { isValidElement, ReactNode, useEffect, useRef, useState } from 'react';
+import { Check, ChevronDown, ChevronUp, Copy, WrapText } from 'lucide-react';
+
+interface CodeBlockProps {
+  children?: ReactNode;
+}
+
+// Longer blocks start collapsed to this many lines
+const COLLAPSED_LINES = 20;
+
+// Replaces `pre` in rendered markdown; the code inside is already highlighted and split into lines
+export function CodeBlock({ children }: CodeBlockProps) {
+  const codeRef = useRef<HTMLPreElement>(null);
+  const [lineCount, setLineCount] = useState(0);
+  const [expanded, setExpanded] = useState(false);
+  const [wrap, setWrap] = useState(false);
+  const [copied, setCopied] = useState(false);
+
+  const className = isValidElement<{ className?: string }>(children) ? children.props.className || '' : '';
+  const language = className.match(/language-([\w-]+)/)?.[1];
+
+  useEffect(() => {
+    setLineCount(codeRef.current?.querySelectorAll('.code-line').length || 0);
+  }, [children]);
+
+  const handleCopy = async () => {
+    try {
+      await navigator.clipboard.writeText(codeRef.current?.textContent || '');
+      setCopied(true);
+      setTimeout(() => setCopied(false), 2000);
+    } catch (error) {
+      console.error('Failed to copy code:', error);
+    }
+  };
+
+  const collapsible = lineCount > COLLAPSED_LINES;
+  const collapsed = collapsible && !expanded;
+
+  return (
+    <div className="not-prose my-4 rounded-lg border border-gray-200 bg-gray-50 overflow-hidden text-sm">
+      <div className="flex items-center justify-between px-3 py-1.5 border-b border-gray-200 text-xs text-gray-500">
+        <span className="font-mono">{language || 'code'}</span>
+        <div className="flex items-center gap-1">
+          <button
+            onClick={() => setWrap(!wrap)}
+            className={`p-1 rounded hover:bg-gray-200 transition-colors ${wrap ? 'text-blue-600' : ''}`}
+            title={wrap ? 'Scroll long lines' : 'Wrap long lines'}
+            aria-pressed={wrap}
+          >
+            <WrapText className="w-4 h-4" />
+          </button>
+          <button
+            onClick={handleCopy}
+            className="inline-flex items-center gap-1 p-1 rounded hover:bg-gray-200 transition-colors"
+            title="Copy code"
+          >
+            {copied ? <Check className="w-4 h-4 text-green-600" /> : <Copy className="w-4 h-4" />}
+            {copied && <span>Copied</span>}
+          </button>
+        </div>
+      </div>
+
+      <div className="relative">
+        <pre
+          ref={codeRef}
+          className={`code-block p-3 font-mono leading-6 text-gray-800 ${wrap ? 'whitespace-pre-wrap break-words' : 'whitespace-pre overflow-x-auto'} ${collapsed ? 'overflow-hidden' : ''}`}
+          style={collapsed ? { maxHeight: `${COLLAPSED_LINES * 1.5 + 1.5}rem` } : undefined}
+        >
+          {children}
+        </pre>
+        {collapsed && (
+          <div className="absolute inset-x-0 bottom-0 h-16 bg-gradient-to-t from-gray-50 to-transparent pointer-events-none" />
+        )}
+      </div>
+
+      {collapsible && (
+        <button
+          onClick={() => setExpanded(!expanded)}
+          className="w-full flex items-center justify-center gap-1 py-1.5 border-t border-gray-200 text-xs text-gray-600 hover:bg-gray-100 transition-colors"
+        >
+          {expanded ? <ChevronUp className="w-4 h-4" /> : <ChevronDown className="w-4 h-4" />}
+          {expanded ? 'Collapse' : `Show all ${lineCount} lines`}
+        </button>
+      )}
+    </div>
+  );
+}
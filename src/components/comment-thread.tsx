@@ -0,0 +1,89 @@
+'use client';
+
+import { useState } from 'react';
+import { PostComment } from '@/types/post';
+import { formatDistanceToNow } from 'date-fns';
+import ReactMarkdown from 'react-markdown';
+import remarkGfm from 'remark-gfm';
+import { ChevronDown, ChevronRight, Heart, User } from 'lucide-react';
+import { countComments } from '@/lib/post-document';
+
+interface CommentThreadProps {
+  comments: PostComment[];
+}
+
+// Deep threads start collapsed so long discussions don't push everything else down
+const EXPANDED_LEVELS = 1;
+
+function CommentItem({ comment, level }: { comment: PostComment; level: number }) {
+  const [expanded, setExpanded] = useState(level < EXPANDED_LEVELS);
+  const replyCount = countComments(comment.replies);
+
+  const formatDate = (dateString: string) => {
+    const date = new Date(dateString);
+    return isNaN(date.getTime()) ? dateString : formatDistanceToNow(date, { addSuffix: true });
+  };
+
+  return (
+    <li className="flex gap-3">
+      <div className="flex-shrink-0 w-8 h-8 bg-gray-200 rounded-full flex items-center justify-center">
+        <User className="w-4 h-4 text-gray-500" />
+      </div>
+
+      <div className="flex-1 min-w-0">
+        <div className="bg-gray-100 rounded-lg px-3 py-2">
+          <div className="flex items-center gap-2 text-sm">
+            <span className="font-semibold text-gray-900">{comment.author || 'Unknown'}</span>
+            {comment.date && (
+              <time dateTime={comment.date} className="text-xs text-gray-500" title={comment.date}>
+                {formatDate(comment.date)}
+              </time>
+            )}
+          </div>
+          {comment.content && (
+            <div className="prose prose-sm prose-gray max-w-none prose-p:my-1 text-gray-800">
+              <ReactMarkdown remarkPlugins={[remarkGfm]}>{comment.content}</ReactMarkdown>
+            </div>
+          )}
+        </div>
+
+        <div className="flex items-center gap-4 mt-1 px-3 text-xs text-gray-500">
+          {!!comment.reactions && (
+            <span className="inline-flex items-center gap-1">
+              <Heart className="w-3 h-3" />
+              {comment.reactions}
+            </span>
+          )}
+          {replyCount > 0 && (
+            <button
+              onClick={() => setExpanded(!expanded)}
+              className="inline-flex items-center gap-1 font-medium hover:text-blue-600 transition-colors"
+              aria-expanded={expanded}
+            >
+              {expanded ? <ChevronDown className="w-3 h-3" /> : <ChevronRight className="w-3 h-3" />}
+              {expanded ? 'Hide replies' : `${replyCount} ${replyCount === 1 ? 'reply' : 'replies'}`}
+            </button>
+          )}
+        </div>
+
+        {expanded && comment.replies.length > 0 && (
+          <ul className="mt-3 space-y-3">
+            {comment.replies.map(reply => (
+              <CommentItem key={reply.id} comment={reply} level={level + 1} />
+            ))}
+          </ul>
+        )}
+      </div>
+    </li>
+  );
+}
+
+export function CommentThread({ comments }: CommentThreadProps) {
+  return (
+    <ul className="space-y-4">
+      {comments.map(comment => (
+        <CommentItem key={comment.id} comment={comment} level={0} />
+      ))}
+    </ul>
+  );
+}
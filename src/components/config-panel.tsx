@@ -1,9 +1,21 @@
 'use client';
 
 import { useState, useEffect } from 'react';
-import { Settings, Check, X, AlertCircle, Github } from 'lucide-react';
-import { getConfig, saveConfig, validateRepositoryUrl, parseRepositoryUrl, resetConfig } from '@/lib/config';
-import { FeedConfig } from '@/types/post';
+import { Settings, Check, X, AlertCircle, Github, KeyRound, GitBranch, Plus, Trash2 } from 'lucide-react';
+import {
+  getConfig,
+  saveConfig,
+  validateRepositoryUrl,
+  parseRepositoryUrl,
+  resetConfig,
+  clearToken,
+  clearUrlOverrides,
+  detectRepositoryHost,
+} from '@/lib/config';
+import { checkToken, GitHubAPI, TokenCheckResult } from '@/lib/github-api';
+import { DEFAULT_CONCURRENCY } from '@/lib/fetch-scheduler';
+import { AUTO_SOURCE, PRIMARY_SOURCE_ID, getPostSourceDefinitions, probeRepositoryHost } from '@/lib/sources';
+import { FeedConfig, FeedSourceConfig } from '@/types/post';
 
 interface ConfigPanelProps {
   onConfigChange?: (config: FeedConfig) => void;
@@ -12,8 +24,22 @@ interface ConfigPanelProps {
 export function ConfigPanel({ onConfigChange }: ConfigPanelProps) {
   const [isOpen, setIsOpen] = useState(false);
   const [config, setConfig] = useState<FeedConfig>(getConfig());
+  const [tempSource, setTempSource] = useState(AUTO_SOURCE);
   const [tempUrl, setTempUrl] = useState('');
+  const [tempBaseUrl, setTempBaseUrl] = useState('');
   const [tempPostsPath, setTempPostsPath] = useState('');
+  const [tempToken, setTempToken] = useState('');
+  const [tempConcurrency, setTempConcurrency] = useState(DEFAULT_CONCURRENCY);
+  const [tempRef, setTempRef] = useState('');
+  const [tempAsOf, setTempAsOf] = useState('');
+  const [tempSources, setTempSources] = useState<FeedSourceConfig[]>([]);
+  const [newSourceUrl, setNewSourceUrl] = useState('');
+  const [newSourcePath, setNewSourcePath] = useState('');
+  const [newSourceLabel, setNewSourceLabel] = useState('');
+  const [refOptions, setRefOptions] = useState<{ branches: string[]; tags: string[] }>({ branches: [], tags: [] });
+  const [isLoadingRefs, setIsLoadingRefs] = useState(false);
+  const [isTestingToken, setIsTestingToken] = useState(false);
+  const [tokenCheck, setTokenCheck] = useState<TokenCheckResult | null>(null);
   const [isValidating, setIsValidating] = useState(false);
   const [validationStatus, setValidationStatus] = useState<'idle' | 'valid' | 'invalid'>('idle');
   const [error, setError] = useState<string>('');
@@ -21,14 +47,117 @@ export function ConfigPanel({ onConfigChange }: ConfigPanelProps) {
   useEffect(() => {
     const currentConfig = getConfig();
     setConfig(currentConfig);
+    setTempSource(currentConfig.source || AUTO_SOURCE);
     setTempUrl(currentConfig.repositoryUrl);
+    setTempBaseUrl(currentConfig.baseUrl || '');
     setTempPostsPath(currentConfig.postsPath);
+    setTempToken(currentConfig.token || '');
+    setTempConcurrency(currentConfig.concurrency || DEFAULT_CONCURRENCY);
+    setTempRef(currentConfig.ref || '');
+    setTempAsOf(currentConfig.asOf || '');
+    setTempSources(currentConfig.sources || []);
   }, []);
 
   const handleUrlChange = (url: string) => {
     setTempUrl(url);
     setValidationStatus('idle');
     setError('');
+
+    // Pick the matching source when the pasted URL names a known host
+    const detected = detectRepositoryHost(url);
+    if (detected && tempSource !== 'local') {
+      setTempSource(detected.source);
+    }
+  };
+
+  const usesGitHubApi = tempSource === 'github' || tempSource === AUTO_SOURCE;
+  const usesSelfHostedApi = tempSource === 'gitlab' || tempSource === 'gitea';
+
+  const handleTokenChange = (token: string) => {
+    setTempToken(token);
+    setTokenCheck(null);
+  };
+
+  const testToken = async () => {
+    if (!tempToken.trim()) {
+      return;
+    }
+
+    setIsTestingToken(true);
+    try {
+      setTokenCheck(await checkToken(tempToken));
+    } finally {
+      setIsTestingToken(false);
+    }
+  };
+
+  const handleClearToken = () => {
+    clearToken();
+    setTempToken('');
+    setTokenCheck(null);
+    const updatedConfig = getConfig();
+    setConfig(updatedConfig);
+
+    if (onConfigChange) {
+      onConfigChange(updatedConfig);
+    }
+  };
+
+  const addSource = () => {
+    const parsed = parseRepositoryUrl(newSourceUrl);
+    if (!parsed) {
+      setError('Invalid repository URL for the additional source');
+      return;
+    }
+
+    const detected = detectRepositoryHost(newSourceUrl);
+    setTempSources(prev => [...prev, {
+      id: `source-${Date.now().toString(36)}`,
+      label: newSourceLabel.trim() || undefined,
+      source: detected?.source,
+      repositoryUrl: newSourceUrl.trim(),
+      baseUrl: detected && detected.source !== 'github' ? detected.baseUrl : undefined,
+      ...parsed,
+      postsPath: newSourcePath.trim() || 'posts',
+    }]);
+    setNewSourceUrl('');
+    setNewSourcePath('');
+    setNewSourceLabel('');
+    setError('');
+  };
+
+  const removeSource = (id: string) => {
+    setTempSources(prev => prev.filter(source => source.id !== id));
+  };
+
+  const loadRefs = async () => {
+    const parsed = parseRepositoryUrl(tempUrl);
+    if (!parsed) {
+      setError('Invalid GitHub repository URL format');
+      return;
+    }
+
+    setIsLoadingRefs(true);
+    setError('');
+
+    try {
+      const api = new GitHubAPI({
+        ...config,
+        ...parsed,
+        repositoryUrl: tempUrl.trim(),
+        token: tempToken.trim() || undefined,
+      });
+      const [branches, tags] = await Promise.all([api.getBranches(), api.getTags()]);
+      setRefOptions({
+        branches: branches.map(branch => branch.name),
+        tags: tags.map(tag => tag.name),
+      });
+    } catch (error) {
+      console.error('Error loading refs:', error);
+      setError(error instanceof Error ? error.message : 'Error loading branches and tags');
+    } finally {
+      setIsLoadingRefs(false);
+    }
   };
 
   const validateUrl = async () => {
@@ -43,7 +172,7 @@ export function ConfigPanel({ onConfigChange }: ConfigPanelProps) {
 
     try {
       if (!validateRepositoryUrl(tempUrl)) {
-        setError('Invalid GitHub repository URL format');
+        setError('Invalid repository URL format');
         setValidationStatus('invalid');
         return;
       }
@@ -55,6 +184,16 @@ export function ConfigPanel({ onConfigChange }: ConfigPanelProps) {
         return;
       }
 
+      if (usesGitHubApi && !detectRepositoryHost(tempUrl)) {
+        const host = await probeRepositoryHost(tempBaseUrl.trim() || new URL(tempUrl).origin);
+        if (!host) {
+          setError('Could not detect the repository host. Choose GitLab or Gitea as the post source.');
+          setValidationStatus('invalid');
+          return;
+        }
+        setTempSource(host);
+      }
+
       // Basic validation - check if URL format is correct
       setValidationStatus('valid');
     } catch (error) {
@@ -73,10 +212,23 @@ export function ConfigPanel({ onConfigChange }: ConfigPanelProps) {
     }
 
     const newConfig: Partial<FeedConfig> = {
+      source: tempSource,
       repositoryUrl: tempUrl.trim(),
+      baseUrl: usesSelfHostedApi ? tempBaseUrl.trim() || undefined : undefined,
       postsPath: tempPostsPath.trim() || 'posts',
+      token: tempToken.trim(),
+      concurrency: Math.min(10, Math.max(1, tempConcurrency || DEFAULT_CONCURRENCY)),
+      ref: tempRef.trim() || undefined,
+      asOf: tempAsOf || undefined,
+      sources: tempSources,
+      // Forget toggles of sources that were removed
+      disabledSources: (config.disabledSources || []).filter(id =>
+        id === PRIMARY_SOURCE_ID || tempSources.some(source => source.id === id)
+      ),
     };
 
+    // Explicitly saved settings replace any snapshot opened from a shared link
+    clearUrlOverrides();
     saveConfig(newConfig);
     const updatedConfig = getConfig();
     setConfig(updatedConfig);
@@ -90,11 +242,19 @@ export function ConfigPanel({ onConfigChange }: ConfigPanelProps) {
   };
 
   const handleReset = () => {
+    clearUrlOverrides();
     resetConfig();
     const defaultConfig = getConfig();
     setConfig(defaultConfig);
+    setTempSource(defaultConfig.source || AUTO_SOURCE);
     setTempUrl(defaultConfig.repositoryUrl);
+    setTempBaseUrl(defaultConfig.baseUrl || '');
     setTempPostsPath(defaultConfig.postsPath);
+    setTempToken(defaultConfig.token || '');
+    setTempConcurrency(defaultConfig.concurrency || DEFAULT_CONCURRENCY);
+    setTempRef('');
+    setTempAsOf('');
+    setTempSources([]);
     setValidationStatus('idle');
     setError('');
     
@@ -153,16 +313,41 @@ export function ConfigPanel({ onConfigChange }: ConfigPanelProps) {
               <div className="bg-gray-50 p-3 rounded-lg">
                 <h3 className="text-sm font-medium text-gray-700 mb-2">Current Configuration</h3>
                 <div className="text-xs text-gray-600 space-y-1">
+                  <div><strong>Source:</strong> {config.source || AUTO_SOURCE}</div>
                   <div><strong>Owner:</strong> {config.owner}</div>
                   <div><strong>Repository:</strong> {config.repo}</div>
                   <div><strong>Posts Path:</strong> {config.postsPath}</div>
+                  <div><strong>Ref:</strong> {config.ref || 'Default branch'}</div>
+                  {config.asOf && <div><strong>Snapshot:</strong> as of {config.asOf}</div>}
+                  {config.sources && config.sources.length > 0 && (
+                    <div><strong>Additional Sources:</strong> {config.sources.length}</div>
+                  )}
+                  <div><strong>Authentication:</strong> {config.token ? 'Personal access token' : 'Anonymous'}</div>
                 </div>
               </div>
 
+              {/* Source Select */}
+              <div>
+                <label htmlFor="post-source" className="block text-sm font-medium text-gray-700 mb-2">
+                  Post Source
+                </label>
+                <select
+                  id="post-source"
+                  value={tempSource}
+                  onChange={(e) => setTempSource(e.target.value)}
+                  className="w-full px-3 py-2 border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-blue-500 focus:border-transparent"
+                >
+                  <option value={AUTO_SOURCE}>Auto-detect</option>
+                  {getPostSourceDefinitions().map(definition => (
+                    <option key={definition.id} value={definition.id}>{definition.label}</option>
+                  ))}
+                </select>
+              </div>
+
               {/* Repository URL Input */}
               <div>
                 <label htmlFor="repo-url" className="block text-sm font-medium text-gray-700 mb-2">
-                  GitHub Repository URL
+                  Repository URL
                 </label>
                 <div className="flex gap-2">
                   <input
@@ -184,6 +369,26 @@ export function ConfigPanel({ onConfigChange }: ConfigPanelProps) {
                 </div>
               </div>
 
+              {/* API Base URL Input */}
+              {usesSelfHostedApi && (
+                <div>
+                  <label htmlFor="base-url" className="block text-sm font-medium text-gray-700 mb-2">
+                    API Base URL
+                  </label>
+                  <input
+                    id="base-url"
+                    type="url"
+                    value={tempBaseUrl}
+                    onChange={(e) => setTempBaseUrl(e.target.value)}
+                    placeholder={detectRepositoryHost(tempUrl)?.baseUrl || 'https://git.example.com'}
+                    className="w-full px-3 py-2 border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-blue-500 focus:border-transparent"
+                  />
+                  <p className="text-xs text-gray-500 mt-1">
+                    Leave empty to use the host of the repository URL
+                  </p>
+                </div>
+              )}
+
               {/* Posts Path Input */}
               <div>
                 <label htmlFor="posts-path" className="block text-sm font-medium text-gray-700 mb-2">
@@ -202,6 +407,216 @@ export function ConfigPanel({ onConfigChange }: ConfigPanelProps) {
                 </p>
               </div>
 
+              {/* Ref Picker */}
+              <div>
+                <label htmlFor="repo-ref" className="block text-sm font-medium text-gray-700 mb-2">
+                  Branch, Tag or Commit
+                </label>
+                <div className="flex gap-2">
+                  <input
+                    id="repo-ref"
+                    type="text"
+                    list="repo-ref-options"
+                    value={tempRef}
+                    onChange={(e) => setTempRef(e.target.value)}
+                    placeholder="Default branch"
+                    className="flex-1 px-3 py-2 border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-blue-500 focus:border-transparent"
+                  />
+                  <datalist id="repo-ref-options">
+                    {refOptions.branches.map(name => (
+                      <option key={`branch-${name}`} value={name} label="branch" />
+                    ))}
+                    {refOptions.tags.map(name => (
+                      <option key={`tag-${name}`} value={name} label="tag" />
+                    ))}
+                  </datalist>
+                  {usesGitHubApi && (
+                    <button
+                      onClick={loadRefs}
+                      disabled={isLoadingRefs}
+                      className="px-3 py-2 bg-gray-100 text-gray-700 rounded-md hover:bg-gray-200 disabled:opacity-50 disabled:cursor-not-allowed flex items-center gap-2"
+                      title="Load branches and tags"
+                    >
+                      {isLoadingRefs ? (
+                        <div className="w-4 h-4 border-2 border-gray-500 border-t-transparent rounded-full animate-spin" />
+                      ) : (
+                        <GitBranch className="w-4 h-4" />
+                      )}
+                      Load
+                    </button>
+                  )}
+                </div>
+                {(refOptions.branches.length > 0 || refOptions.tags.length > 0) && (
+                  <p className="text-xs text-gray-500 mt-1">
+                    {refOptions.branches.length} branches, {refOptions.tags.length} tags available
+                  </p>
+                )}
+              </div>
+
+              {/* Snapshot Date Input */}
+              <div>
+                <label htmlFor="as-of" className="block text-sm font-medium text-gray-700 mb-2">
+                  View Archive As Of
+                </label>
+                <div className="flex gap-2">
+                  <input
+                    id="as-of"
+                    type="date"
+                    value={tempAsOf}
+                    onChange={(e) => setTempAsOf(e.target.value)}
+                    className="flex-1 px-3 py-2 border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-blue-500 focus:border-transparent"
+                  />
+                  {tempAsOf && (
+                    <button
+                      onClick={() => setTempAsOf('')}
+                      className="px-3 py-2 text-gray-600 hover:text-gray-800 text-sm"
+                    >
+                      Clear
+                    </button>
+                  )}
+                </div>
+                <p className="text-xs text-gray-500 mt-1">
+                  Shows the feed as it was at the last commit before the end of this day
+                </p>
+              </div>
+
+              {/* Additional Sources */}
+              <div>
+                <label className="block text-sm font-medium text-gray-700 mb-2">
+                  Additional Sources
+                </label>
+                {tempSources.length > 0 && (
+                  <ul className="mb-2 divide-y divide-gray-100 border border-gray-200 rounded-md">
+                    {tempSources.map(source => (
+                      <li key={source.id} className="flex items-center justify-between gap-2 px-3 py-2">
+                        <div className="min-w-0">
+                          <div className="text-sm text-gray-900 truncate">{source.label || `${source.owner}/${source.repo}`}</div>
+                          <div className="text-xs text-gray-500 truncate">{source.repositoryUrl} · {source.postsPath}</div>
+                        </div>
+                        <button
+                          onClick={() => removeSource(source.id)}
+                          className="text-gray-400 hover:text-red-600 flex-shrink-0"
+                          title="Remove source"
+                        >
+                          <Trash2 className="w-4 h-4" />
+                        </button>
+                      </li>
+                    ))}
+                  </ul>
+                )}
+                <div className="space-y-2">
+                  <input
+                    type="url"
+                    value={newSourceUrl}
+                    onChange={(e) => setNewSourceUrl(e.target.value)}
+                    placeholder="https://github.com/owner/another-backup"
+                    className="w-full px-3 py-2 border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-blue-500 focus:border-transparent"
+                  />
+                  <div className="flex gap-2">
+                    <input
+                      type="text"
+                      value={newSourcePath}
+                      onChange={(e) => setNewSourcePath(e.target.value)}
+                      placeholder="Posts path"
+                      className="flex-1 min-w-0 px-3 py-2 border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-blue-500 focus:border-transparent"
+                    />
+                    <input
+                      type="text"
+                      value={newSourceLabel}
+                      onChange={(e) => setNewSourceLabel(e.target.value)}
+                      placeholder="Label (optional)"
+                      className="flex-1 min-w-0 px-3 py-2 border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-blue-500 focus:border-transparent"
+                    />
+                    <button
+                      onClick={addSource}
+                      disabled={!newSourceUrl.trim()}
+                      className="px-3 py-2 bg-gray-100 text-gray-700 rounded-md hover:bg-gray-200 disabled:opacity-50 disabled:cursor-not-allowed flex items-center gap-1"
+                    >
+                      <Plus className="w-4 h-4" />
+                      Add
+                    </button>
+                  </div>
+                </div>
+                <p className="text-xs text-gray-500 mt-1">
+                  Posts from all enabled sources are merged into one timeline. Toggle sources from the feed header.
+                </p>
+              </div>
+
+              {/* Concurrency Input */}
+              <div>
+                <label htmlFor="concurrency" className="block text-sm font-medium text-gray-700 mb-2">
+                  Parallel Requests
+                </label>
+                <input
+                  id="concurrency"
+                  type="number"
+                  min={1}
+                  max={10}
+                  value={tempConcurrency}
+                  onChange={(e) => setTempConcurrency(parseInt(e.target.value) || DEFAULT_CONCURRENCY)}
+                  className="w-24 px-3 py-2 border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-blue-500 focus:border-transparent"
+                />
+                <p className="text-xs text-gray-500 mt-1">
+                  Number of post files fetched at the same time (1-10)
+                </p>
+              </div>
+
+              {/* Access Token Input */}
+              <div>
+                <label htmlFor="access-token" className="block text-sm font-medium text-gray-700 mb-2">
+                  Personal Access Token (optional)
+                </label>
+                <div className="flex gap-2">
+                  <input
+                    id="access-token"
+                    type="password"
+                    autoComplete="off"
+                    value={tempToken}
+                    onChange={(e) => handleTokenChange(e.target.value)}
+                    placeholder="ghp_..."
+                    className="flex-1 px-3 py-2 border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-blue-500 focus:border-transparent"
+                  />
+                  {usesGitHubApi && (
+                    <button
+                      onClick={testToken}
+                      disabled={isTestingToken || !tempToken.trim()}
+                      className="px-3 py-2 bg-gray-100 text-gray-700 rounded-md hover:bg-gray-200 disabled:opacity-50 disabled:cursor-not-allowed flex items-center gap-2"
+                    >
+                      {isTestingToken ? (
+                        <div className="w-4 h-4 border-2 border-gray-500 border-t-transparent rounded-full animate-spin" />
+                      ) : (
+                        <KeyRound className="w-4 h-4" />
+                      )}
+                      Test
+                    </button>
+                  )}
+                </div>
+                <p className="text-xs text-gray-500 mt-1">
+                  Raises the limit to 5,000 requests/hour and allows private repositories. Stored separately from the configuration.
+                </p>
+                {tokenCheck && (
+                  <div className={`mt-2 p-2 rounded-md text-xs ${tokenCheck.valid ? 'bg-green-50 text-green-700' : 'bg-red-50 text-red-700'}`}>
+                    {tokenCheck.valid ? (
+                      <div className="space-y-1">
+                        <div><strong>User:</strong> {tokenCheck.login || 'Unknown'}</div>
+                        <div><strong>Scopes:</strong> {tokenCheck.scopes.length > 0 ? tokenCheck.scopes.join(', ') : 'None (fine-grained or public access only)'}</div>
+                        <div><strong>Rate limit:</strong> {tokenCheck.remaining}/{tokenCheck.limit} per hour</div>
+                      </div>
+                    ) : (
+                      <span>{tokenCheck.error || 'Token is not valid'}</span>
+                    )}
+                  </div>
+                )}
+                {config.token && (
+                  <button
+                    onClick={handleClearToken}
+                    className="mt-2 text-xs text-red-600 hover:text-red-800"
+                  >
+                    Remove saved token
+                  </button>
+                )}
+              </div>
+
               {/* Error Display */}
               {error && (
                 <div className="flex items-center gap-2 p-3 bg-red-50 border border-red-200 rounded-md">
@@ -0,0 +1,18 @@
+'use client';
+
+import { highlightParts } from '@/lib/search';
+
+interface HighlightProps {
+  text: string;
+  query: string;
+}
+
+export function Highlight({ text, query }: HighlightProps) {
+  return (
+    <>
+      {highlightParts(text, query).map((part, index) => part.match
+        ? <mark key={index} className="search-match">{part.text}</mark>
+        : part.text)}
+    </>
+  );
+}
@@ -1,3 +1,5 @@
 export { Newsfeed } from './newsfeed';
 export { PostCard } from './post-card';
 export { ConfigPanel } from './config-panel';
+export { PostTags } from './post-tags';
+export { TagCloud } from './tag-cloud';
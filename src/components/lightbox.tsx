@@ -0,0 +1,161 @@
+'use client';
+
+import { useCallback, useEffect, useRef, useState } from 'react';
+import { PostAttachment } from '@/types/post';
+import Image from 'next/image';
+import { ChevronLeft, ChevronRight, X, ZoomIn, ZoomOut } from 'lucide-react';
+
+interface LightboxProps {
+  photos: PostAttachment[];
+  index: number;
+  onIndexChange: (index: number) => void;
+  onClose: () => void;
+}
+
+const MIN_ZOOM = 1;
+const MAX_ZOOM = 4;
+const SWIPE_DISTANCE = 50;
+
+export function Lightbox({ photos, index, onIndexChange, onClose }: LightboxProps) {
+  const [zoom, setZoom] = useState(1);
+  const [offset, setOffset] = useState({ x: 0, y: 0 });
+  const pointer = useRef<{ x: number; y: number; offsetX: number; offsetY: number } | null>(null);
+  const photo = photos[index];
+
+  const go = useCallback((delta: number) => {
+    onIndexChange((index + delta + photos.length) % photos.length);
+  }, [index, photos.length, onIndexChange]);
+
+  const changeZoom = useCallback((delta: number) => {
+    setZoom(prev => Math.min(MAX_ZOOM, Math.max(MIN_ZOOM, prev + delta)));
+  }, []);
+
+  // Every photo starts unzoomed
+  useEffect(() => {
+    setZoom(1);
+    setOffset({ x: 0, y: 0 });
+  }, [index]);
+
+  useEffect(() => {
+    if (zoom === 1) setOffset({ x: 0, y: 0 });
+  }, [zoom]);
+
+  useEffect(() => {
+    const handleKey = (event: KeyboardEvent) => {
+      if (event.key === 'Escape') onClose();
+      else if (event.key === 'ArrowLeft') go(-1);
+      else if (event.key === 'ArrowRight') go(1);
+      else if (event.key === '+' || event.key === '=') changeZoom(1);
+      else if (event.key === '-') changeZoom(-1);
+      else if (event.key === '0') setZoom(1);
+    };
+
+    // Keep the page behind from scrolling while the lightbox is open
+    const overflow = document.body.style.overflow;
+    document.body.style.overflow = 'hidden';
+    window.addEventListener('keydown', handleKey);
+    return () => {
+      document.body.style.overflow = overflow;
+      window.removeEventListener('keydown', handleKey);
+    };
+  }, [go, changeZoom, onClose]);
+
+  // Dragging pans a zoomed photo and swipes between photos otherwise
+  const handlePointerDown = (event: React.PointerEvent) => {
+    pointer.current = { x: event.clientX, y: event.clientY, offsetX: offset.x, offsetY: offset.y };
+    (event.target as Element).setPointerCapture?.(event.pointerId);
+  };
+
+  const handlePointerMove = (event: React.PointerEvent) => {
+    if (!pointer.current || zoom === 1) return;
+    setOffset({
+      x: pointer.current.offsetX + (event.clientX - pointer.current.x) / zoom,
+      y: pointer.current.offsetY + (event.clientY - pointer.current.y) / zoom,
+    });
+  };
+
+  const handlePointerUp = (event: React.PointerEvent) => {
+    const start = pointer.current;
+    pointer.current = null;
+    if (!start || zoom !== 1) return;
+    const dx = event.clientX - start.x;
+    if (Math.abs(dx) > SWIPE_DISTANCE && Math.abs(dx) > Math.abs(event.clientY - start.y)) {
+      go(dx < 0 ? 1 : -1);
+    }
+  };
+
+  if (!photo?.image) {
+    return null;
+  }
+
+  return (
+    <div className="fixed inset-0 z-50 bg-black/95 flex flex-col text-white" role="dialog" aria-modal="true" aria-label="Photo viewer">
+      {/* Toolbar */}
+      <div className="flex items-center justify-between p-3 text-sm">
+        <span className="tabular-nums">{index + 1} / {photos.length}</span>
+        <div className="flex items-center gap-1">
+          <button onClick={() => changeZoom(-1)} disabled={zoom <= MIN_ZOOM} className="p-2 rounded-full hover:bg-white/10 disabled:opacity-40" title="Zoom out (-)">
+            <ZoomOut className="w-5 h-5" />
+          </button>
+          <button onClick={() => changeZoom(1)} disabled={zoom >= MAX_ZOOM} className="p-2 rounded-full hover:bg-white/10 disabled:opacity-40" title="Zoom in (+)">
+            <ZoomIn className="w-5 h-5" />
+          </button>
+          <button onClick={onClose} className="p-2 rounded-full hover:bg-white/10" title="Close (Esc)">
+            <X className="w-5 h-5" />
+          </button>
+        </div>
+      </div>
+
+      {/* Photo */}
+      <div
+        className={`relative flex-1 overflow-hidden select-none touch-none ${zoom > 1 ? 'cursor-grab' : 'cursor-zoom-in'}`}
+        onPointerDown={handlePointerDown}
+        onPointerMove={handlePointerMove}
+        onPointerUp={handlePointerUp}
+        onPointerCancel={() => { pointer.current = null; }}
+        onDoubleClick={() => setZoom(zoom > 1 ? 1 : 2)}
+        onWheel={event => changeZoom(event.deltaY < 0 ? 0.5 : -0.5)}
+      >
+        <div
+          className="absolute inset-0 transition-transform duration-100"
+          style={{ transform: `scale(${zoom}) translate(${offset.x}px, ${offset.y}px)` }}
+        >
+          <Image
+            src={photo.image}
+            alt={photo.description || `Photo ${index + 1}`}
+            fill
+            sizes="100vw"
+            className="object-contain pointer-events-none"
+            draggable={false}
+            unoptimized
+          />
+        </div>
+
+        {photos.length > 1 && (
+          <>
+            <button
+              onClick={() => go(-1)}
+              onPointerDown={event => event.stopPropagation()}
+              className="absolute left-2 top-1/2 -translate-y-1/2 p-2 rounded-full bg-black/50 hover:bg-black/70"
+              title="Previous (←)"
+            >
+              <ChevronLeft className="w-6 h-6" />
+            </button>
+            <button
+              onClick={() => go(1)}
+              onPointerDown={event => event.stopPropagation()}
+              className="absolute right-2 top-1/2 -translate-y-1/2 p-2 rounded-full bg-black/50 hover:bg-black/70"
+              title="Next (→)"
+            >
+              <ChevronRight className="w-6 h-6" />
+            </button>
+          </>
+        )}
+      </div>
+
+      {photo.description && (
+        <p className="p-4 text-center text-sm text-gray-200 max-h-32 overflow-y-auto">{photo.description}</p>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,119 @@
+'use client';
+
+import { ReactNode } from 'react';
+import type { MDXComponents } from 'mdx/types';
+import Image from 'next/image';
+import { defaultUrlTransform } from 'react-markdown';
+import { AlertCircle, AlertTriangle, ExternalLink, Info, Lightbulb, Quote as QuoteIcon } from 'lucide-react';
+import { VideoAttachment } from './video-attachment';
+import { CodeBlock } from './code-block';
+
+// Attribute values come straight from the post, so only http(s), mailto and relative URLs get through
+const safeUrl = (url?: string) => (url ? defaultUrlTransform(url) : '');
+
+const CALLOUT_STYLES = {
+  info: { icon: Info, className: 'bg-blue-50 border-blue-200 text-blue-900' },
+  tip: { icon: Lightbulb, className: 'bg-green-50 border-green-200 text-green-900' },
+  warning: { icon: AlertTriangle, className: 'bg-yellow-50 border-yellow-200 text-yellow-900' },
+  danger: { icon: AlertCircle, className: 'bg-red-50 border-red-200 text-red-900' },
+};
+
+function Callout({ type = 'info', title, children }: { type?: string; title?: string; children?: ReactNode }) {
+  const style = CALLOUT_STYLES[type as keyof typeof CALLOUT_STYLES] || CALLOUT_STYLES.info;
+  const Icon = style.icon;
+
+  return (
+    <div className={`not-prose my-4 flex gap-3 rounded-lg border p-4 text-sm ${style.className}`}>
+      <Icon className="w-5 h-5 flex-shrink-0" />
+      <div className="min-w-0 [&_p]:my-1">
+        {title && <p className="font-semibold">{title}</p>}
+        {children}
+      </div>
+    </div>
+  );
+}
+
+// Wraps markdown images; the paragraphs around them are flattened so each image is a grid cell
+function Gallery({ children }: { children?: ReactNode }) {
+  return (
+    <div className="not-prose my-4 grid grid-cols-2 sm:grid-cols-3 gap-2 [&_p]:contents [&_img]:aspect-square [&_img]:object-cover [&_img]:w-full">
+      {children}
+    </div>
+  );
+}
+
+function Quote({ author, source, children }: { author?: string; source?: string; children?: ReactNode }) {
+  const href = safeUrl(source);
+
+  return (
+    <figure className="not-prose my-4 rounded-lg border border-gray-200 bg-gray-50 p-4">
+      <QuoteIcon className="w-5 h-5 text-gray-400 mb-2" />
+      <blockquote className="text-gray-800 [&_p]:my-1">{children}</blockquote>
+      {(author || href) && (
+        <figcaption className="mt-2 text-sm text-gray-500">
+          — {author || 'Source'}
+          {href && (
+            <a href={href} target="_blank" rel="noopener noreferrer" className="ml-2 inline-flex items-center gap-1 text-blue-600 hover:text-blue-800">
+              <ExternalLink className="w-3 h-3" />
+              View original
+            </a>
+          )}
+        </figcaption>
+      )}
+    </figure>
+  );
+}
+
+function Attachment({ type, url, image, description }: { type?: string; url?: string; image?: string; description?: string }) {
+  const imageSrc = safeUrl(image);
+  const href = safeUrl(url);
+
+  if (type === 'video') {
+    return <VideoAttachment attachment={{ type, url: href || undefined, image: imageSrc || undefined, description }} className="not-prose my-4" />;
+  }
+
+  if (type === 'photo' && imageSrc) {
+    return (
+      <figure className="not-prose my-4">
+        <Image src={imageSrc} alt={description || 'Post attachment'} width={800} height={600} className="w-full h-auto rounded-lg object-cover" unoptimized />
+        {description && <figcaption className="text-sm text-gray-600 mt-2 italic">{description}</figcaption>}
+      </figure>
+    );
+  }
+
+  if (!href) {
+    return null;
+  }
+
+  return (
+    <a
+      href={href}
+      target="_blank"
+      rel="noopener noreferrer"
+      className="not-prose my-4 inline-flex items-center gap-2 text-blue-600 hover:text-blue-800 p-3 border border-blue-200 rounded-lg hover:bg-blue-50 transition-colors"
+    >
+      <ExternalLink className="w-4 h-4" />
+      {description || href}
+    </a>
+  );
+}
+
+// Components available to MDX posts; the names must match MDX_COMPONENT_NAMES
+export const mdxComponents: MDXComponents = {
+  Callout,
+  Gallery,
+  Quote,
+  Attachment,
+  pre: ({ children }) => <CodeBlock>{children}</CodeBlock>,
+  a: ({ href, children }) => (
+    <a href={safeUrl(href)} target="_blank" rel="noopener noreferrer" className="text-blue-600 hover:text-blue-800 underline">
+      {children}
+    </a>
+  ),
+  img: ({ src, alt }) => {
+    const imageSrc = safeUrl(typeof src === 'string' ? src : '');
+    return imageSrc ? (
+      <Image src={imageSrc} alt={alt || ''} width={800} height={600} className="rounded-lg max-w-full h-auto" unoptimized />
+    ) : null;
+  },
+};
@@ -1,16 +1,39 @@
 'use client';
 
-import { useState, useEffect, useCallback } from 'react';
+import { useState, useEffect, useCallback, useRef } from 'react';
 import { useInView } from 'react-intersection-observer';
-import { Post, FeedConfig, PaginationInfo } from '@/types/post';
+import { useRouter } from 'next/navigation';
+import { Post, FeedConfig, PaginationInfo, PostDiagnostic } from '@/types/post';
+import { PostChange } from '@/types/source';
 import { PostLoader } from '@/lib/post-loader';
 import { GitHubAPIError } from '@/lib/github-api';
-import { getConfig } from '@/lib/config';
+import { isAbortError } from '@/lib/fetch-scheduler';
+import { comparePostsByDate } from '@/lib/post-files';
+import { getConfig, getSnapshotQuery, saveConfig } from '@/lib/config';
+import { getFeedSources } from '@/lib/sources';
+import { getSearchIndex } from '@/lib/search-index';
 import { useCache } from '@/hooks/use-cache';
+import { useNewPosts } from '@/hooks/use-new-posts';
 import { PostCard } from './post-card';
 import { ConfigPanel } from './config-panel';
 import { CacheStatus } from './cache-status';
-import { Loader2, AlertCircle, RefreshCw, Rss, Database, HardDrive, Cloud } from 'lucide-react';
+import { ProblemsPanel } from './problems-panel';
+import { Loader2, AlertCircle, RefreshCw, Rss, Database, HardDrive, Cloud, GitBranch, History, Link2, Eye, EyeOff, ArrowUp, Search } from 'lucide-react';
+
+// Applies a pushed change to the loaded posts in the same order sources use; new posts past the loaded pages arrive with pagination
+function applyPostChange(posts: Post[], change: PostChange, hasMore: boolean): Post[] {
+  if (change.type === 'remove') {
+    return posts.filter(post => post.path !== change.path);
+  }
+
+  // An edit may change the post date, so re-place it rather than updating in place
+  const others = posts.filter(post => post.path !== change.post.path);
+  const position = others.findIndex(post => comparePostsByDate(change.post, post) < 0);
+  if (position === -1) {
+    return hasMore ? others : [...others, change.post];
+  }
+  return [...others.slice(0, position), change.post, ...others.slice(position)];
+}
 
 export function Newsfeed() {
   const [posts, setPosts] = useState<Post[]>([]);
@@ -21,8 +44,19 @@ export function Newsfeed() {
     loading: false,
   });
   const [error, setError] = useState<string>('');
+  const [diagnostics, setDiagnostics] = useState<PostDiagnostic[]>([]);
   const [postLoader, setPostLoader] = useState<PostLoader>(new PostLoader(config));
   const { clearCache, preloadNextPage } = useCache(postLoader);
+  const watchEnabled = config.watch !== false;
+  const { newPosts, takeNewPosts } = useNewPosts(postLoader, watchEnabled);
+  const paginationRef = useRef(pagination);
+  paginationRef.current = pagination;
+  // Only the latest load may clear the loading flag; an aborted older one must not leave it set
+  const loadGenerationRef = useRef(0);
+  const router = useRouter();
+  const [searchText, setSearchText] = useState('');
+  // Shared per archive, so every post shown here becomes searchable
+  const searchIndex = getSearchIndex(config);
 
   // Intersection observer for infinite scroll
   const { ref: loadMoreRef, inView } = useInView({
@@ -30,10 +64,24 @@ export function Newsfeed() {
     rootMargin: '100px',
   });
 
-  // Initialize and load first page
+  // Cancel in-flight requests of a loader once it is replaced
   useEffect(() => {
-    loadPosts(1, true);
-  }, []);
+    return () => postLoader.cancel();
+  }, [postLoader]);
+
+  // Sources that watch their content push edits, so cards update without a refresh
+  useEffect(() => {
+    return postLoader.subscribeChanges(change => {
+      setPosts(prev => applyPostChange(prev, change, paginationRef.current.hasMore));
+      if (change.type === 'remove') {
+        searchIndex.remove(change.path);
+      } else {
+        searchIndex.addPosts([change.post]);
+      }
+      const changedPath = change.type === 'remove' ? change.path : change.post.path;
+      setDiagnostics(prev => prev.filter(diagnostic => diagnostic.path !== changedPath));
+    });
+  }, [postLoader, searchIndex]);
 
   // Load more posts when scrolling to bottom
   useEffect(() => {
@@ -43,13 +91,21 @@ export function Newsfeed() {
   }, [inView, pagination.hasMore, pagination.loading, pagination.page]);
 
   const loadPosts = useCallback(async (page: number, reset: boolean = false) => {
+    const generation = ++loadGenerationRef.current;
     setPagination(prev => ({ ...prev, loading: true }));
     setError('');
 
     try {
-      const { posts: newPosts, hasMore } = await postLoader.getPosts(page, 10);
+      const { posts: newPosts, hasMore, diagnostics: newDiagnostics } = await postLoader.getPosts(page, 10);
+      searchIndex.addPosts(newPosts);
 
-      setPosts(prev => reset ? newPosts : [...prev, ...newPosts]);
+      // Pushed changes can shift page boundaries, so skip posts that are already shown
+      setPosts(prev => {
+        if (reset) return newPosts;
+        const loaded = new Set(prev.map(post => post.path));
+        return [...prev, ...newPosts.filter(post => !loaded.has(post.path))];
+      });
+      setDiagnostics(prev => reset ? newDiagnostics : [...prev, ...newDiagnostics]);
       setPagination({
         page,
         hasMore,
@@ -61,32 +117,90 @@ export function Newsfeed() {
         preloadNextPage(page);
       }
     } catch (err) {
+      if (isAbortError(err)) {
+        return;
+      }
       console.log('err', err);
       const errorMessage = err instanceof GitHubAPIError || err instanceof Error
         ? err.message
         : 'An unexpected error occurred while loading posts';
 
       setError(errorMessage);
-      setPagination(prev => ({ ...prev, loading: false }));
+    } finally {
+      if (generation === loadGenerationRef.current) {
+        setPagination(prev => prev.loading ? { ...prev, loading: false } : prev);
+      }
     }
-  }, [postLoader]);
+  }, [postLoader, searchIndex]);
+
+  // Load the first page initially and whenever the loader is replaced
+  useEffect(() => {
+    loadPosts(1, true);
+  }, [loadPosts]);
 
   const handleConfigChange = useCallback((newConfig: FeedConfig) => {
     setConfig(newConfig);
-    const newPostLoader = new PostLoader(newConfig);
-    setPostLoader(newPostLoader);
+    window.history.replaceState(null, '', `${window.location.pathname}${getSnapshotQuery(newConfig)}`);
 
-    // Reset and reload posts with new config
+    // Reset posts; the new loader triggers a reload of the first page
     setPosts([]);
+    setDiagnostics([]);
     setPagination({ page: 1, hasMore: true, loading: false });
-    loadPosts(1, true);
+    setPostLoader(new PostLoader(newConfig));
   }, []);
 
   const handleRefresh = useCallback(() => {
+    takeNewPosts();
     setPosts([]);
     setPagination({ page: 1, hasMore: true, loading: false });
     loadPosts(1, true);
-  }, [loadPosts]);
+  }, [loadPosts, takeNewPosts]);
+
+  const handleShowNewPosts = useCallback(() => {
+    const added = takeNewPosts();
+    searchIndex.addPosts(added);
+    setPosts(prev => {
+      const loaded = new Set(prev.map(post => post.path));
+      return [...added.filter(post => !loaded.has(post.path)), ...prev];
+    });
+    window.scrollTo({ top: 0, behavior: 'smooth' });
+  }, [takeNewPosts, searchIndex]);
+
+  const handleSearch = useCallback((event: React.FormEvent) => {
+    event.preventDefault();
+    if (!searchText.trim()) return;
+    // Keep ref/snapshot parameters so results come from the same version
+    const params = new URLSearchParams(window.location.search);
+    params.set('q', searchText.trim());
+    router.push(`/search?${params.toString()}`);
+  }, [router, searchText]);
+
+  const handleToggleWatch = useCallback(() => {
+    saveConfig({ watch: !watchEnabled });
+    setConfig(prev => ({ ...prev, watch: !watchEnabled }));
+  }, [watchEnabled]);
+
+  const feedSources = config.sources && config.sources.length > 0 ? getFeedSources(config) : [];
+
+  const handleToggleSource = useCallback((id: string) => {
+    const disabled = config.disabledSources || [];
+    const disabledSources = disabled.includes(id)
+      ? disabled.filter(sourceId => sourceId !== id)
+      : [...disabled, id];
+
+    saveConfig({ disabledSources });
+    handleConfigChange({ ...config, disabledSources });
+  }, [config, handleConfigChange]);
+
+  const handleCopyLink = useCallback(async () => {
+    const url = `${window.location.origin}${window.location.pathname}${getSnapshotQuery(config, true)}`;
+    try {
+      await navigator.clipboard.writeText(url);
+    } catch (error) {
+      console.warn('Failed to copy link:', error);
+      window.prompt('Copy this link', url);
+    }
+  }, [config]);
 
   const handleClearCache = useCallback(() => {
     clearCache();
@@ -176,12 +290,70 @@ export function Newsfeed() {
                   </div>
                 </div>
                 <p className="text-sm text-gray-600">
-                  {postLoader.getMode() === 'local' ? 'Loading from local filesystem' : `${config.owner}/${config.repo}`}
+                  {feedSources.length > 0
+                    ? `${feedSources.filter(source => source.enabled).length} of ${feedSources.length} sources`
+                    : postLoader.getMode() === 'local' ? 'Loading from local filesystem' : `${config.owner}/${config.repo}`}
                 </p>
+                {feedSources.length > 0 && (
+                  <div className="flex flex-wrap items-center gap-1 mt-1">
+                    {feedSources.map(source => (
+                      <button
+                        key={source.id}
+                        onClick={() => handleToggleSource(source.id)}
+                        className={`px-2 py-0.5 rounded-full text-xs border transition-colors ${
+                          source.enabled
+                            ? 'bg-blue-50 border-blue-200 text-blue-700 hover:bg-blue-100'
+                            : 'bg-white border-gray-200 text-gray-400 line-through hover:text-gray-600'
+                        }`}
+                        title={source.enabled ? 'Hide posts from this source' : 'Show posts from this source'}
+                      >
+                        {source.label}
+                      </button>
+                    ))}
+                  </div>
+                )}
+                {postLoader.getMode() === 'remote' && (config.ref || config.asOf) && (
+                  <div className="flex items-center gap-2 mt-1 text-xs text-gray-500">
+                    {config.ref && (
+                      <span className="inline-flex items-center gap-1">
+                        <GitBranch className="w-3 h-3" />
+                        {config.ref}
+                      </span>
+                    )}
+                    {config.asOf && (
+                      <span className="inline-flex items-center gap-1 text-amber-700">
+                        <History className="w-3 h-3" />
+                        As of {config.asOf}
+                      </span>
+                    )}
+                  </div>
+                )}
               </div>
             </div>
 
             <div className="flex items-center gap-2">
+              {postLoader.getMode() === 'remote' && (
+                <button
+                  onClick={handleCopyLink}
+                  className="inline-flex items-center gap-2 px-3 py-2 text-gray-600 hover:text-gray-800"
+                  title="Copy a shareable link to this feed snapshot"
+                >
+                  <Link2 className="w-4 h-4" />
+                  Share
+                </button>
+              )}
+
+              {postLoader.getCapabilities().watch && (
+                <button
+                  onClick={handleToggleWatch}
+                  className={`inline-flex items-center gap-2 px-3 py-2 hover:text-gray-800 ${watchEnabled ? 'text-blue-600' : 'text-gray-600'}`}
+                  title={watchEnabled ? 'Stop checking for new posts' : 'Check for new posts in the background'}
+                >
+                  {watchEnabled ? <Eye className="w-4 h-4" /> : <EyeOff className="w-4 h-4" />}
+                  Watch
+                </button>
+              )}
+
               <button
                 onClick={handleClearCache}
                 className="inline-flex items-center gap-2 px-3 py-2 text-gray-600 hover:text-gray-800"
@@ -202,6 +374,17 @@ export function Newsfeed() {
               </button>
             </div>
           </div>
+
+          <form onSubmit={handleSearch} className="mt-3 relative">
+            <Search className="w-4 h-4 text-gray-400 absolute left-3 top-1/2 -translate-y-1/2" />
+            <input
+              type="search"
+              value={searchText}
+              onChange={event => setSearchText(event.target.value)}
+              placeholder="Search posts"
+              className="w-full pl-9 pr-3 py-2 text-sm border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-blue-500"
+            />
+          </form>
         </div>
       </header>
 
@@ -209,12 +392,26 @@ export function Newsfeed() {
       <main className="max-w-3xl mx-auto px-4 py-6">
         {error && renderError()}
 
+        {newPosts.length > 0 && (
+          <div className="sticky top-24 z-30 flex justify-center mb-4">
+            <button
+              onClick={handleShowNewPosts}
+              className="inline-flex items-center gap-2 px-4 py-2 bg-blue-600 text-white rounded-full shadow-md hover:bg-blue-700 transition-colors text-sm"
+            >
+              <ArrowUp className="w-4 h-4" />
+              {newPosts.length} new post{newPosts.length === 1 ? '' : 's'}
+            </button>
+          </div>
+        )}
+
+        {!error && <ProblemsPanel diagnostics={diagnostics} />}
+
         {!error && posts.length === 0 && !pagination.loading && renderEmptyState()}
 
         {!error && posts.length > 0 && (
           <div className="space-y-6">
-            {posts.map((post, index) => (
-              <PostCard key={`${post.path}-${index}`} post={post} />
+            {posts.map(post => (
+              <PostCard key={post.path} post={post} />
             ))}
           </div>
         )}
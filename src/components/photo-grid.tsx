@@ -0,0 +1,53 @@
+'use client';
+
+import { PostAttachment } from '@/types/post';
+import Image from 'next/image';
+
+interface PhotoGridProps {
+  photos: PostAttachment[];
+  onOpen: (index: number) => void;
+  // Tiles shown before the rest collapse into "+N"; omit to show every photo
+  maxTiles?: number;
+  className?: string;
+}
+
+// Layouts for up to four tiles; the first photo gets the most room
+const LAYOUTS: Record<number, { grid: string; tiles: string[] }> = {
+  1: { grid: 'grid-cols-1', tiles: ['aspect-[4/3]'] },
+  2: { grid: 'grid-cols-2', tiles: ['aspect-square', 'aspect-square'] },
+  3: { grid: 'grid-cols-2', tiles: ['col-span-2 aspect-[2/1]', 'aspect-square', 'aspect-square'] },
+  4: { grid: 'grid-cols-2', tiles: ['aspect-square', 'aspect-square', 'aspect-square', 'aspect-square'] },
+};
+
+export function PhotoGrid({ photos, onOpen, maxTiles, className = '' }: PhotoGridProps) {
+  const shown = maxTiles ? photos.slice(0, maxTiles) : photos;
+  const hidden = photos.length - shown.length;
+  const layout = LAYOUTS[shown.length] || { grid: 'grid-cols-2 sm:grid-cols-3', tiles: [] };
+
+  return (
+    <div className={`grid gap-1 rounded-lg overflow-hidden ${layout.grid} ${className}`}>
+      {shown.map((photo, index) => (
+        <button
+          key={`${photo.image}-${index}`}
+          onClick={() => onOpen(index)}
+          className={`relative bg-gray-100 overflow-hidden group ${layout.tiles[index] || 'aspect-square'}`}
+          title={photo.description || `Photo ${index + 1} of ${photos.length}`}
+        >
+          <Image
+            src={photo.image!}
+            alt={photo.description || `Photo ${index + 1}`}
+            fill
+            sizes="(max-width: 640px) 50vw, 400px"
+            className="object-cover group-hover:scale-105 transition-transform duration-200"
+            unoptimized
+          />
+          {hidden > 0 && index === shown.length - 1 && (
+            <span className="absolute inset-0 bg-black/50 flex items-center justify-center text-white text-2xl font-semibold">
+              +{hidden}
+            </span>
+          )}
+        </button>
+      ))}
+    </div>
+  );
+}
@@ -1,10 +1,16 @@
 'use client';
 
-import { Post } from '@/types/post';
+import { useState } from 'react';
+import { Post, PostAttachment } from '@/types/post';
 import { formatDistanceToNow } from 'date-fns';
-import { Heart, MessageCircle, Share, ExternalLink, User } from 'lucide-react';
+import { MessageCircle, Share, ExternalLink, User } from 'lucide-react';
 import Image from 'next/image';
 import { useRouter } from 'next/navigation';
+import { PostTags } from './post-tags';
+import { VideoAttachment } from './video-attachment';
+import { PhotoGrid } from './photo-grid';
+import { Lightbox } from './lightbox';
+import { ReactionSummary } from './reaction-summary';
 
 interface PostCardProps {
   post: Post;
@@ -13,6 +19,10 @@ interface PostCardProps {
 export function PostCard({ post }: PostCardProps) {
   const { metadata, content, attachments, engagement } = post;
   const router = useRouter();
+  const [lightboxIndex, setLightboxIndex] = useState<number | null>(null);
+  // Albums can have dozens of photos, so they share a grid instead of stacking
+  const photos = attachments.filter(attachment => attachment.type === 'photo' && attachment.image);
+  const otherAttachments = attachments.filter(attachment => !photos.includes(attachment));
 
   const formatDate = (dateString: string) => {
     try {
@@ -30,13 +40,18 @@ export function PostCard({ post }: PostCardProps) {
       .trim() || 'Anonymous';
   };
 
-  const handlePostClick = () => {
+  const handlePostClick = (section?: string) => {
     // Encode the post path for URL
     const encodedPath = encodeURIComponent(post.path);
-    router.push(`/post/${encodedPath}`);
+    // Keep ref/snapshot parameters so the detail view reads the same version
+    router.push(`/post/${encodedPath}${window.location.search}${section ? `#${section}` : ''}`);
   };
 
-  const renderAttachment = (attachment: { type?: string; image?: string; description?: string; url?: string }, index: number) => {
+  const renderAttachment = (attachment: PostAttachment, index: number) => {
+    if (attachment.type === 'video') {
+      return <VideoAttachment key={index} attachment={attachment} className="mt-3" />;
+    }
+
     if (attachment.type === 'photo' && attachment.image) {
       return (
         <div key={index} className="mt-3">
@@ -94,7 +109,7 @@ export function PostCard({ post }: PostCardProps) {
               </h3>
               <span className="text-gray-500">•</span>
               <button
-                onClick={handlePostClick}
+                onClick={() => handlePostClick()}
                 className="text-sm text-gray-500 hover:text-blue-600 transition-colors"
                 title="View post details"
               >
@@ -105,6 +120,11 @@ export function PostCard({ post }: PostCardProps) {
             </div>
 
             <div className="flex items-center gap-2 mt-1">
+              {post.origin && (
+                <span className="text-xs text-blue-700 bg-blue-50 px-2 py-1 rounded" title="Source">
+                  {post.origin.label}
+                </span>
+              )}
               <span className="text-xs text-gray-500 bg-gray-100 px-2 py-1 rounded">
                 {metadata.feedName}
               </span>
@@ -122,7 +142,7 @@ export function PostCard({ post }: PostCardProps) {
       <div className="p-4">
         {metadata.title && metadata.title !== `Post from ${metadata.author}` && (
           <button
-            onClick={handlePostClick}
+            onClick={() => handlePostClick()}
             className="text-left w-full hover:text-blue-600 transition-colors"
             title="View post details"
           >
@@ -132,38 +152,66 @@ export function PostCard({ post }: PostCardProps) {
           </button>
         )}
 
-        <button
-          onClick={handlePostClick}
-          className="text-left w-full text-gray-700 leading-relaxed hover:text-gray-900 transition-colors"
-          title="View post details"
-        >
-          <p>{content}</p>
-        </button>
+        {content && (
+          <button
+            onClick={() => handlePostClick()}
+            className="text-left w-full text-gray-700 leading-relaxed hover:text-gray-900 transition-colors"
+            title="View post details"
+          >
+            <p>{content}</p>
+          </button>
+        )}
+
+        {post.codeSnippet && (
+          <button
+            onClick={() => handlePostClick()}
+            className="mt-3 block w-full text-left rounded-md border border-gray-200 bg-gray-50 hover:border-gray-300 transition-colors overflow-hidden"
+            title="View post details"
+          >
+            <pre className="px-3 py-2 text-xs leading-5 font-mono text-gray-800 whitespace-pre overflow-hidden">
+              {post.codeSnippet.code}
+            </pre>
+            <span className="flex justify-between px-3 py-1 border-t border-gray-200 text-xs text-gray-500">
+              <span className="font-mono">{post.codeSnippet.language || 'code'}</span>
+              {post.codeSnippet.truncated && <span>more…</span>}
+            </span>
+          </button>
+        )}
+
+        <PostTags tags={metadata.tags} className="mt-3" />
 
         {/* Attachments */}
-        {attachments.length > 0 && (
+        {photos.length > 0 && (
+          <PhotoGrid photos={photos} maxTiles={4} onOpen={setLightboxIndex} className="mt-4" />
+        )}
+        {otherAttachments.length > 0 && (
           <div className="mt-4">
-            {attachments.map((attachment, index) => renderAttachment(attachment, index))}
+            {otherAttachments.map((attachment, index) => renderAttachment(attachment, index))}
           </div>
         )}
+        {lightboxIndex !== null && (
+          <Lightbox
+            photos={photos}
+            index={lightboxIndex}
+            onIndexChange={setLightboxIndex}
+            onClose={() => setLightboxIndex(null)}
+          />
+        )}
       </div>
 
       {/* Footer */}
       <div className="px-4 py-3 border-t border-gray-100 bg-gray-50">
         <div className="flex items-center justify-between">
           <div className="flex items-center gap-4">
-            <button className="flex items-center gap-2 text-gray-500 hover:text-red-500 transition-colors">
-              <Heart className="w-4 h-4" />
-              <span className="text-sm">{engagement.totalReactions}</span>
-            </button>
+            <ReactionSummary total={engagement.totalReactions} breakdown={engagement.reactions} />
 
             <button
-              onClick={handlePostClick}
+              onClick={() => handlePostClick('comments')}
               className="flex items-center gap-2 text-gray-500 hover:text-blue-500 transition-colors"
-              title="View post details"
+              title="View comments"
             >
               <MessageCircle className="w-4 h-4" />
-              <span className="text-sm">Comment</span>
+              <span className="text-sm">{engagement.totalComments}</span>
             </button>
 
             <button className="flex items-center gap-2 text-gray-500 hover:text-green-500 transition-colors">
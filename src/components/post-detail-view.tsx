@@ -1,47 +1,136 @@
 'use client';
 
-import { useEffect, useState } from 'react';
-import { Post } from '@/types/post';
+import { useCallback, useEffect, useMemo, useState } from 'react';
+import { Post, PostAttachment } from '@/types/post';
 import { formatDistanceToNow } from 'date-fns';
-import { Heart, MessageCircle, Share, ExternalLink, User, Calendar, Hash } from 'lucide-react';
+import { AlertTriangle, MessageCircle, Share, ExternalLink, User, Calendar, Hash, FileText, History, Trash2 } from 'lucide-react';
 import Image from 'next/image';
 import ReactMarkdown from 'react-markdown';
 import remarkGfm from 'remark-gfm';
+import rehypeHighlight from 'rehype-highlight';
+import type { MDXContent } from 'mdx/types';
 import { PostLoader } from '@/lib/post-loader';
 import { getConfig } from '@/lib/config';
+import { parsePostFile } from '@/lib/mdx-parser';
+import { compilePostMdx, hasMdxComponents } from '@/lib/mdx-render';
+import { rehypeCodeLines } from '@/lib/code-lines';
+import { rehypeSearchHighlight } from '@/lib/search';
+import { getSearchIndex } from '@/lib/search-index';
+import { PostTombstone } from '@/lib/post-history';
+import { PostHistory } from './post-history';
+import { PostTags } from './post-tags';
+import { VideoAttachment } from './video-attachment';
+import { PhotoGrid } from './photo-grid';
+import { Lightbox } from './lightbox';
+import { CommentThread } from './comment-thread';
+import { ReactionSummary } from './reaction-summary';
+import { mdxComponents } from './mdx-components';
+import { CodeBlock } from './code-block';
+import { Highlight } from './highlight';
 
 interface PostDetailViewProps {
   post: Post;
+  // Set when the post no longer exists and is shown from its last known version
+  tombstone?: PostTombstone;
 }
 
-export function PostDetailView({ post }: PostDetailViewProps) {
+export function PostDetailView({ post, tombstone }: PostDetailViewProps) {
   const [fullContent, setFullContent] = useState<string>('');
+  const [mdxContent, setMdxContent] = useState<MDXContent | null>(null);
+  const [mdxError, setMdxError] = useState('');
   const [loading, setLoading] = useState(true);
+  const [activeTab, setActiveTab] = useState<'post' | 'history'>('post');
+  const [lightboxIndex, setLightboxIndex] = useState<number | null>(null);
+  const [searchQuery, setSearchQuery] = useState('');
+  const postLoader = useMemo(() => new PostLoader(getConfig()), []);
+  const hasHistory = postLoader.getCapabilities().history;
 
   useEffect(() => {
+    // Set when another post opens first, so its late content never replaces the current one
+    let cancelled = false;
+
     const loadFullContent = async () => {
+      setLoading(true);
+      setMdxContent(null);
+      setMdxError('');
+      // Opened from search results, the query is kept in the URL to highlight matches
+      const query = new URLSearchParams(window.location.search).get('q') || '';
+      setSearchQuery(query);
       try {
-        const config = getConfig();
-        const postLoader = new PostLoader(config);
-        const content = await postLoader.getFileContent(post.path);
-        
-        // Extract just the content part (after frontmatter)
-        const contentMatch = content.match(/^---[\s\S]*?---\n([\s\S]*)$/);
-        const markdownContent = contentMatch ? contentMatch[1] : content;
-        
-        setFullContent(markdownContent);
+        const content = tombstone ? tombstone.content : await postLoader.getFileContent(post.path);
+        if (cancelled) {
+          return;
+        }
+        // Attachments, engagement and metadata lines are rendered separately
+        const { body, text } = parsePostFile(content).document;
+        setFullContent(body);
+        if (!tombstone) {
+          getSearchIndex(getConfig()).addBody(post, text);
+        }
+
+        if (hasMdxComponents(body)) {
+          try {
+            const Content = await compilePostMdx(body, query);
+            if (!cancelled) {
+              setMdxContent(() => Content);
+            }
+          } catch (error) {
+            // Shown as plain markdown instead, with a note about what was rejected
+            if (!cancelled) {
+              setMdxError(error instanceof Error ? error.message : 'Unknown error');
+            }
+          }
+        }
       } catch (error) {
-        console.error('Error loading full content:', error);
-        setFullContent('Error loading content');
+        if (!cancelled) {
+          console.error('Error loading full content:', error);
+          setFullContent('Error loading content');
+        }
       } finally {
-        setLoading(false);
+        if (!cancelled) {
+          setLoading(false);
+        }
       }
     };
 
     loadFullContent();
-  }, [post.path]);
+    return () => {
+      cancelled = true;
+    };
+  }, [post, postLoader, tombstone]);
+
+  // Cards link to #comments, which only exists once the content has rendered
+  useEffect(() => {
+    if (!loading && window.location.hash === '#comments') {
+      document.getElementById('comments')?.scrollIntoView();
+    }
+  }, [loading]);
+
+  const { metadata, attachments, engagement, comments } = post;
+  const MdxContent = mdxContent;
+  const photos = useMemo(
+    () => attachments.filter(attachment => attachment.type === 'photo' && attachment.image),
+    [attachments]
+  );
+  const otherAttachments = attachments.filter(attachment => !photos.includes(attachment));
 
-  const { metadata, attachments, engagement } = post;
+  // `#photo-3` deep links to the third photo in the lightbox
+  useEffect(() => {
+    const openFromHash = () => {
+      const match = window.location.hash.match(/^#photo-(\d+)$/);
+      const index = match ? parseInt(match[1]) - 1 : -1;
+      setLightboxIndex(index >= 0 && index < photos.length ? index : null);
+    };
+    openFromHash();
+    window.addEventListener('hashchange', openFromHash);
+    return () => window.removeEventListener('hashchange', openFromHash);
+  }, [photos.length]);
+
+  const openPhoto = useCallback((index: number | null) => {
+    setLightboxIndex(index);
+    const { pathname, search } = window.location;
+    window.history.replaceState(null, '', `${pathname}${search}${index === null ? '' : `#photo-${index + 1}`}`);
+  }, []);
   
   const formatDate = (dateString: string) => {
     try {
@@ -68,23 +157,11 @@ export function PostDetailView({ post }: PostDetailViewProps) {
       .trim() || 'Anonymous';
   };
 
-  const cleanMarkdownContent = (content: string) => {
-    // Remove attachment sections and other metadata that shouldn't be rendered
-    return content
-      .replace(/### Attachment \d+[\s\S]*?(?=\n###|\n##|$)/g, '') // Remove attachments
-      .replace(/## Attachments[\s\S]*?(?=\n##|$)/g, '') // Remove attachment sections
-      .replace(/## Engagement[\s\S]*?(?=\n##|$)/g, '') // Remove engagement sections
-      .replace(/\*\*Date:\*\*.*?\n/g, '') // Remove date lines
-      .replace(/\*\*Feed:\*\*.*?\n/g, '') // Remove feed lines
-      .replace(/\*\*Post ID:\*\*.*?\n/g, '') // Remove post ID lines
-      .replace(/\*\*Author:\*\*.*?\n/g, '') // Remove author lines
-      .replace(/\*\*Total Reactions:\*\*.*?\n/g, '') // Remove reaction lines
-      .replace(/\*Backed up by.*?\*/g, '') // Remove backup footer
-      .replace(/#[a-zA-Z0-9_]+/g, '') // Remove hashtags
-      .trim();
-  };
+  const renderAttachment = (attachment: PostAttachment, index: number) => {
+    if (attachment.type === 'video') {
+      return <VideoAttachment key={index} attachment={attachment} className="mt-6" />;
+    }
 
-  const renderAttachment = (attachment: { type?: string; image?: string; description?: string; url?: string }, index: number) => {
     if (attachment.type === 'photo' && attachment.image) {
       return (
         <div key={index} className="mt-6">
@@ -139,7 +216,7 @@ export function PostDetailView({ post }: PostDetailViewProps) {
           
           <div className="flex-1 min-w-0">
             <h1 className="text-xl font-bold text-gray-900 mb-2">
-              {metadata.title}
+              <Highlight text={metadata.title} query={searchQuery} />
             </h1>
             
             <div className="flex items-center gap-4 flex-wrap text-sm text-gray-600">
@@ -169,92 +246,162 @@ export function PostDetailView({ post }: PostDetailViewProps) {
                 </span>
               )}
             </div>
+
+            <PostTags tags={metadata.tags} className="mt-3" />
           </div>
         </div>
       </div>
 
-      {/* Content */}
-      <div className="p-6">
-        {loading ? (
-          <div className="flex items-center justify-center py-8">
-            <div className="flex items-center gap-2 text-gray-600">
-              <div className="w-4 h-4 border-2 border-blue-500 border-t-transparent rounded-full animate-spin" />
-              <span>Loading content...</span>
-            </div>
-          </div>
-        ) : (
-          <div className="prose prose-gray max-w-none prose-headings:text-gray-900 prose-p:text-gray-700 prose-a:text-blue-600 prose-strong:text-gray-900 prose-ul:text-gray-700 prose-ol:text-gray-700">
-            <ReactMarkdown
-              remarkPlugins={[remarkGfm]}
-              components={{
-                a: ({ href, children, ...props }) => (
-                  <a
-                    href={href}
-                    target="_blank"
-                    rel="noopener noreferrer"
-                    className="text-blue-600 hover:text-blue-800 underline"
-                    {...props}
+      {tombstone && (
+        <div className="px-6 py-3 bg-red-50 border-b border-red-100 text-sm text-red-700 flex items-start gap-2">
+          <Trash2 className="w-4 h-4 flex-shrink-0 mt-0.5" />
+          <span>
+            This post was deleted from the repository {formatDate(tombstone.deletedIn.date).relative} ({tombstone.deletedIn.sha.substring(0, 7)}).
+            Showing the last known version from {tombstone.lastKnown.sha.substring(0, 7)}.
+          </span>
+        </div>
+      )}
+
+      {/* Tabs */}
+      {hasHistory && (
+        <div className="flex gap-1 px-6 border-b border-gray-100">
+          <button
+            onClick={() => setActiveTab('post')}
+            className={`inline-flex items-center gap-2 px-3 py-2 text-sm border-b-2 -mb-px ${activeTab === 'post' ? 'border-blue-600 text-blue-600' : 'border-transparent text-gray-500 hover:text-gray-700'}`}
+          >
+            <FileText className="w-4 h-4" />
+            Post
+          </button>
+          <button
+            onClick={() => setActiveTab('history')}
+            className={`inline-flex items-center gap-2 px-3 py-2 text-sm border-b-2 -mb-px ${activeTab === 'history' ? 'border-blue-600 text-blue-600' : 'border-transparent text-gray-500 hover:text-gray-700'}`}
+          >
+            <History className="w-4 h-4" />
+            History
+          </button>
+        </div>
+      )}
+
+      {activeTab === 'history' ? (
+        <div className="p-6">
+          <PostHistory path={post.path} postLoader={postLoader} />
+        </div>
+      ) : (
+        <>
+          {/* Content */}
+          <div className="p-6">
+            {loading ? (
+              <div className="flex items-center justify-center py-8">
+                <div className="flex items-center gap-2 text-gray-600">
+                  <div className="w-4 h-4 border-2 border-blue-500 border-t-transparent rounded-full animate-spin" />
+                  <span>Loading content...</span>
+                </div>
+              </div>
+            ) : (
+              <div className="prose prose-gray max-w-none prose-headings:text-gray-900 prose-p:text-gray-700 prose-a:text-blue-600 prose-strong:text-gray-900 prose-ul:text-gray-700 prose-ol:text-gray-700">
+                {mdxError && (
+                  <div className="not-prose mb-4 flex items-start gap-2 rounded-lg border border-yellow-200 bg-yellow-50 p-3 text-sm text-yellow-800">
+                    <AlertTriangle className="w-4 h-4 flex-shrink-0 mt-0.5" />
+                    <span>This post couldn&apos;t be rendered as MDX and is shown as plain markdown: {mdxError}</span>
+                  </div>
+                )}
+                {MdxContent ? (
+                  <MdxContent components={mdxComponents} />
+                ) : (
+                  <ReactMarkdown
+                    remarkPlugins={[remarkGfm]}
+                    rehypePlugins={[[rehypeHighlight, { detect: true }], rehypeCodeLines, [rehypeSearchHighlight, { query: searchQuery }]]}
+                    components={{
+                      pre: ({ children }) => <CodeBlock>{children}</CodeBlock>,
+                      a: ({ href, children, ...props }) => (
+                        <a
+                          href={href}
+                          target="_blank"
+                          rel="noopener noreferrer"
+                          className="text-blue-600 hover:text-blue-800 underline"
+                          {...props}
+                        >
+                          {children}
+                        </a>
+                      ),
+                      img: ({ src, alt, ...props }) => {
+                        const imageSrc = typeof src === 'string' ? src : '';
+                        // Remove width, height, and other props that might conflict with Next.js Image
+                        const { width: _width, height: _height, ...safeProps } = props;
+                        return (
+                          <Image
+                            src={imageSrc || ''}
+                            alt={alt || ''}
+                            width={800}
+                            height={600}
+                            className="rounded-lg max-w-full h-auto"
+                            unoptimized
+                            {...safeProps}
+                          />
+                        );
+                      },
+                    }}
                   >
-                    {children}
-                  </a>
-                ),
-                img: ({ src, alt, ...props }) => {
-                  const imageSrc = typeof src === 'string' ? src : '';
-                  // Remove width, height, and other props that might conflict with Next.js Image
-                  const { width: _width, height: _height, ...safeProps } = props;
-                  return (
-                    <Image
-                      src={imageSrc || ''}
-                      alt={alt || ''}
-                      width={800}
-                      height={600}
-                      className="rounded-lg max-w-full h-auto"
-                      unoptimized
-                      {...safeProps}
-                    />
-                  );
-                },
-              }}
-            >
-              {cleanMarkdownContent(fullContent)}
-            </ReactMarkdown>
-          </div>
-        )}
+                    {fullContent}
+                  </ReactMarkdown>
+                )}
+              </div>
+            )}
 
-        {/* Attachments */}
-        {attachments.length > 0 && (
-          <div className="mt-8 pt-6 border-t border-gray-100">
-            <h3 className="text-lg font-semibold text-gray-900 mb-4">Attachments</h3>
-            {attachments.map((attachment, index) => renderAttachment(attachment, index))}
+            {/* Attachments */}
+            {attachments.length > 0 && (
+              <div className="mt-8 pt-6 border-t border-gray-100">
+                <h3 className="text-lg font-semibold text-gray-900 mb-4">Attachments</h3>
+                {photos.length > 0 && <PhotoGrid photos={photos} onOpen={openPhoto} />}
+                {otherAttachments.map((attachment, index) => renderAttachment(attachment, index))}
+              </div>
+            )}
+            {lightboxIndex !== null && (
+              <Lightbox
+                photos={photos}
+                index={lightboxIndex}
+                onIndexChange={openPhoto}
+                onClose={() => openPhoto(null)}
+              />
+            )}
           </div>
-        )}
-      </div>
 
-      {/* Footer */}
-      <div className="px-6 py-4 border-t border-gray-100 bg-gray-50">
-        <div className="flex items-center justify-between">
-          <div className="flex items-center gap-6">
-            <button className="flex items-center gap-2 text-gray-500 hover:text-red-500 transition-colors">
-              <Heart className="w-5 h-5" />
-              <span>{engagement.totalReactions} reactions</span>
-            </button>
+          {/* Footer */}
+          <div className="px-6 py-4 border-t border-gray-100 bg-gray-50">
+            <div className="flex items-center justify-between">
+              <div className="flex items-center gap-6">
+                <ReactionSummary total={engagement.totalReactions} breakdown={engagement.reactions} size="md" suffix="reactions" />
             
-            <button className="flex items-center gap-2 text-gray-500 hover:text-blue-500 transition-colors">
-              <MessageCircle className="w-5 h-5" />
-              <span>Comment</span>
-            </button>
+                <button
+                  onClick={() => document.getElementById('comments')?.scrollIntoView({ behavior: 'smooth' })}
+                  disabled={!comments || comments.length === 0}
+                  className="flex items-center gap-2 text-gray-500 hover:text-blue-500 disabled:hover:text-gray-500 transition-colors"
+                >
+                  <MessageCircle className="w-5 h-5" />
+                  <span>{engagement.totalComments} comment{engagement.totalComments === 1 ? '' : 's'}</span>
+                </button>
             
-            <button className="flex items-center gap-2 text-gray-500 hover:text-green-500 transition-colors">
-              <Share className="w-5 h-5" />
-              <span>Share</span>
-            </button>
-          </div>
+                <button className="flex items-center gap-2 text-gray-500 hover:text-green-500 transition-colors">
+                  <Share className="w-5 h-5" />
+                  <span>Share</span>
+                </button>
+              </div>
           
-          <div className="text-xs text-gray-400">
-            Post ID: {metadata.postId}
+              <div className="text-xs text-gray-400">
+                Post ID: {metadata.postId}
+              </div>
+            </div>
           </div>
-        </div>
-      </div>
+
+          {/* Comments */}
+          {comments && comments.length > 0 && (
+            <div id="comments" className="px-6 py-6 border-t border-gray-100 scroll-mt-20">
+              <h3 className="text-lg font-semibold text-gray-900 mb-4">Comments</h3>
+              <CommentThread comments={comments} />
+            </div>
+          )}
+        </>
+      )}
     </article>
   );
 }
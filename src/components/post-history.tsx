@@ -0,0 +1,232 @@
+'use client';
+
+import { useEffect, useState } from 'react';
+import { formatDistanceToNow } from 'date-fns';
+import { GitCommit, Trash2, AlertCircle, ExternalLink } from 'lucide-react';
+import { PostRevision } from '@/types/post';
+import { PostLoader } from '@/lib/post-loader';
+import { diffWords } from '@/lib/word-diff';
+import { diffFrontmatter, parsePostVersion } from '@/lib/post-history';
+
+interface PostHistoryProps {
+  path: string;
+  postLoader: PostLoader;
+}
+
+export function PostHistory({ path, postLoader }: PostHistoryProps) {
+  const [revisions, setRevisions] = useState<PostRevision[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState('');
+  const [fromSha, setFromSha] = useState('');
+  const [toSha, setToSha] = useState('');
+  // null marks a revision where the file didn't exist (it was deleted there)
+  const [contents, setContents] = useState<Record<string, string | null>>({});
+  const [loadingDiff, setLoadingDiff] = useState(false);
+
+  useEffect(() => {
+    const loadHistory = async () => {
+      setLoading(true);
+      setError('');
+      try {
+        const history = await postLoader.getFileHistory(path);
+        setRevisions(history);
+        setToSha(history[0]?.sha || '');
+        setFromSha(history[1]?.sha || history[0]?.sha || '');
+      } catch (err) {
+        console.error('Error loading post history:', err);
+        setError(err instanceof Error ? err.message : 'Error loading history');
+      } finally {
+        setLoading(false);
+      }
+    };
+
+    loadHistory();
+  }, [path, postLoader]);
+
+  useEffect(() => {
+    const missing = [fromSha, toSha].filter(sha => sha && !(sha in contents));
+    if (missing.length === 0) {
+      return;
+    }
+
+    const loadVersions = async () => {
+      setLoadingDiff(true);
+      try {
+        const loaded = await Promise.all(missing.map(async sha => [sha, await postLoader.getFileContentAt(path, sha)] as const));
+        setContents(prev => ({ ...prev, ...Object.fromEntries(loaded) }));
+      } catch (err) {
+        console.error('Error loading post version:', err);
+        setError(err instanceof Error ? err.message : 'Error loading version');
+      } finally {
+        setLoadingDiff(false);
+      }
+    };
+
+    loadVersions();
+  }, [fromSha, toSha, contents, path, postLoader]);
+
+  const formatDate = (dateString: string) => {
+    try {
+      return formatDistanceToNow(new Date(dateString), { addSuffix: true });
+    } catch (error) {
+      return 'Unknown date';
+    }
+  };
+
+  const renderDiff = () => {
+    if (!fromSha || !toSha || !(fromSha in contents) || !(toSha in contents)) {
+      return null;
+    }
+
+    // Older version on the left, whichever way round the commits were picked
+    const [olderSha, newerSha] = revisions.findIndex(r => r.sha === fromSha) >= revisions.findIndex(r => r.sha === toSha)
+      ? [fromSha, toSha]
+      : [toSha, fromSha];
+    const before = parsePostVersion(contents[olderSha]);
+    const after = parsePostVersion(contents[newerSha]);
+    const fieldChanges = diffFrontmatter(before.data, after.data);
+    const bodyDiff = diffWords(before.body.trim(), after.body.trim());
+    const bodyChanged = bodyDiff.some(part => part.type !== 'equal');
+
+    return (
+      <div className="space-y-4">
+        {contents[newerSha] === null && (
+          <div className="flex items-center gap-2 p-3 bg-red-50 border border-red-200 rounded-md text-sm text-red-700">
+            <Trash2 className="w-4 h-4 flex-shrink-0" />
+            The post was deleted in {newerSha.substring(0, 7)}
+          </div>
+        )}
+
+        {olderSha === newerSha ? (
+          <p className="text-sm text-gray-500">Pick two different commits to compare.</p>
+        ) : fieldChanges.length === 0 && !bodyChanged ? (
+          <p className="text-sm text-gray-500">No changes between these versions.</p>
+        ) : null}
+
+        {fieldChanges.length > 0 && (
+          <div>
+            <h4 className="text-sm font-medium text-gray-900 mb-2">Frontmatter</h4>
+            <table className="w-full text-xs border border-gray-200 rounded-md overflow-hidden">
+              <tbody>
+                {fieldChanges.map(change => (
+                  <tr key={change.field} className="border-b border-gray-100 last:border-0">
+                    <td className="px-3 py-2 font-mono text-gray-600 align-top whitespace-nowrap">{change.field}</td>
+                    <td className="px-3 py-2 text-red-700 bg-red-50 align-top break-all">{change.before ?? '—'}</td>
+                    <td className="px-3 py-2 text-green-700 bg-green-50 align-top break-all">{change.after ?? '—'}</td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          </div>
+        )}
+
+        {bodyChanged && (
+          <div>
+            <h4 className="text-sm font-medium text-gray-900 mb-2">Content</h4>
+            <div className="p-3 border border-gray-200 rounded-md text-sm text-gray-700 whitespace-pre-wrap break-words leading-relaxed">
+              {bodyDiff.map((part, index) => (
+                part.type === 'equal' ? (
+                  <span key={index}>{part.text}</span>
+                ) : part.type === 'added' ? (
+                  <ins key={index} className="bg-green-100 text-green-800 no-underline">{part.text}</ins>
+                ) : (
+                  <del key={index} className="bg-red-100 text-red-800">{part.text}</del>
+                )
+              ))}
+            </div>
+          </div>
+        )}
+      </div>
+    );
+  };
+
+  if (loading) {
+    return (
+      <div className="flex items-center justify-center py-8">
+        <div className="flex items-center gap-2 text-gray-600">
+          <div className="w-4 h-4 border-2 border-blue-500 border-t-transparent rounded-full animate-spin" />
+          <span>Loading history...</span>
+        </div>
+      </div>
+    );
+  }
+
+  if (error) {
+    return (
+      <div className="flex items-center gap-2 p-3 bg-red-50 border border-red-200 rounded-md">
+        <AlertCircle className="w-4 h-4 text-red-500 flex-shrink-0" />
+        <span className="text-sm text-red-700">{error}</span>
+      </div>
+    );
+  }
+
+  if (revisions.length === 0) {
+    return <p className="text-sm text-gray-500">No commits found for this post.</p>;
+  }
+
+  return (
+    <div className="space-y-6">
+      <div>
+        <div className="flex items-center gap-3 mb-2 text-xs font-medium text-gray-500">
+          <span className="w-6 text-center">A</span>
+          <span className="w-6 text-center">B</span>
+          <span>{revisions.length} commit{revisions.length === 1 ? '' : 's'}</span>
+        </div>
+        <ul className="divide-y divide-gray-100 border border-gray-200 rounded-md">
+          {revisions.map(revision => (
+            <li key={revision.sha} className="flex items-start gap-3 px-3 py-2">
+              <input
+                type="radio"
+                name="history-from"
+                checked={fromSha === revision.sha}
+                onChange={() => setFromSha(revision.sha)}
+                className="w-6 mt-1"
+                aria-label={`Compare from ${revision.sha.substring(0, 7)}`}
+              />
+              <input
+                type="radio"
+                name="history-to"
+                checked={toSha === revision.sha}
+                onChange={() => setToSha(revision.sha)}
+                className="w-6 mt-1"
+                aria-label={`Compare to ${revision.sha.substring(0, 7)}`}
+              />
+              <div className="flex-1 min-w-0">
+                <div className="flex items-center gap-2 text-sm text-gray-900">
+                  <GitCommit className="w-4 h-4 text-gray-400 flex-shrink-0" />
+                  <span className="truncate">{revision.message.split('\n')[0]}</span>
+                  {contents[revision.sha] === null && (
+                    <span className="text-xs text-red-700 bg-red-50 px-1.5 py-0.5 rounded">deleted</span>
+                  )}
+                </div>
+                <div className="flex items-center gap-2 mt-0.5 text-xs text-gray-500">
+                  <span className="font-mono">{revision.sha.substring(0, 7)}</span>
+                  <span>{revision.author}</span>
+                  <span>{formatDate(revision.date)}</span>
+                  {revision.url && (
+                    <a
+                      href={revision.url}
+                      target="_blank"
+                      rel="noopener noreferrer"
+                      className="text-blue-600 hover:text-blue-800"
+                      title="View commit"
+                    >
+                      <ExternalLink className="w-3 h-3" />
+                    </a>
+                  )}
+                </div>
+              </div>
+            </li>
+          ))}
+        </ul>
+      </div>
+
+      {loadingDiff ? (
+        <div className="flex items-center gap-2 text-sm text-gray-600">
+          <div className="w-4 h-4 border-2 border-blue-500 border-t-transparent rounded-full animate-spin" />
+          <span>Loading versions...</span>
+        </div>
+      ) : renderDiff()}
+    </div>
+  );
+}
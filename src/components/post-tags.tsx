@@ -0,0 +1,33 @@
+'use client';
+
+import { useRouter } from 'next/navigation';
+import { tagHref } from '@/lib/tags';
+
+interface PostTagsProps {
+  tags?: string[];
+  className?: string;
+}
+
+export function PostTags({ tags, className = '' }: PostTagsProps) {
+  const router = useRouter();
+
+  if (!tags || tags.length === 0) {
+    return null;
+  }
+
+  return (
+    <div className={`flex flex-wrap gap-2 ${className}`}>
+      {tags.map(tag => (
+        <button
+          key={tag}
+          // Keep ref/snapshot parameters so the tag page lists the same version
+          onClick={() => router.push(`${tagHref(tag)}${window.location.search}`)}
+          className="text-xs text-blue-700 bg-blue-50 hover:bg-blue-100 px-2 py-1 rounded-full transition-colors"
+          title={`Posts tagged #${tag}`}
+        >
+          #{tag}
+        </button>
+      ))}
+    </div>
+  );
+}
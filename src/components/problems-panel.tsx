@@ -0,0 +1,67 @@
+'use client';
+
+import { useState } from 'react';
+import { PostDiagnostic } from '@/types/post';
+import { AlertCircle, AlertTriangle, ChevronDown, ChevronRight } from 'lucide-react';
+
+interface ProblemsPanelProps {
+  diagnostics: PostDiagnostic[];
+}
+
+export function ProblemsPanel({ diagnostics }: ProblemsPanelProps) {
+  const [expanded, setExpanded] = useState(false);
+
+  if (diagnostics.length === 0) {
+    return null;
+  }
+
+  const skipped = new Set(diagnostics.filter(d => d.severity === 'error').map(d => d.path)).size;
+  const partial = new Set(diagnostics.filter(d => d.severity === 'warning').map(d => d.path)).size;
+  const summary = [
+    skipped > 0 && `${skipped} post${skipped === 1 ? '' : 's'} skipped`,
+    partial > 0 && `${partial} loaded with problems`,
+  ].filter(Boolean).join(', ');
+
+  return (
+    <div className={`mb-6 border rounded-lg text-sm ${skipped > 0 ? 'bg-yellow-50 border-yellow-200 text-yellow-800' : 'bg-gray-50 border-gray-200 text-gray-700'}`}>
+      <button
+        onClick={() => setExpanded(!expanded)}
+        className="w-full flex items-center gap-2 p-3 text-left"
+        aria-expanded={expanded}
+      >
+        {expanded ? <ChevronDown className="w-4 h-4 flex-shrink-0" /> : <ChevronRight className="w-4 h-4 flex-shrink-0" />}
+        <span className="font-medium">Problems ({diagnostics.length})</span>
+        <span className="text-xs opacity-80">{summary}</span>
+      </button>
+
+      {expanded && (
+        <div className="px-3 pb-3 overflow-x-auto">
+          <table className="w-full text-xs">
+            <thead>
+              <tr className="text-left opacity-70">
+                <th className="py-1 pr-2 font-medium w-5"></th>
+                <th className="py-1 pr-2 font-medium">File</th>
+                <th className="py-1 pr-2 font-medium">Field</th>
+                <th className="py-1 font-medium">Problem</th>
+              </tr>
+            </thead>
+            <tbody>
+              {diagnostics.map((diagnostic, index) => (
+                <tr key={`${diagnostic.path}:${diagnostic.field || ''}:${index}`} className="border-t border-black/5 align-top">
+                  <td className="py-1 pr-2" title={diagnostic.severity === 'error' ? 'Skipped' : 'Loaded with defaults'}>
+                    {diagnostic.severity === 'error'
+                      ? <AlertCircle className="w-3.5 h-3.5 text-red-600" />
+                      : <AlertTriangle className="w-3.5 h-3.5 text-yellow-600" />}
+                  </td>
+                  <td className="py-1 pr-2 font-mono break-all">{diagnostic.path}</td>
+                  <td className="py-1 pr-2 font-mono">{diagnostic.field || '—'}</td>
+                  <td className="py-1">{diagnostic.message}</td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        </div>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,59 @@
+'use client';
+
+import { ReactionBreakdown } from '@/types/post';
+import { Heart } from 'lucide-react';
+import { REACTION_LABELS, sortedReactions } from '@/lib/reactions';
+
+interface ReactionSummaryProps {
+  total: number;
+  breakdown?: ReactionBreakdown;
+  size?: 'sm' | 'md';
+  // Text after the total, e.g. "reactions"
+  suffix?: string;
+}
+
+export function ReactionSummary({ total, breakdown, size = 'sm', suffix }: ReactionSummaryProps) {
+  const reactions = breakdown ? sortedReactions(breakdown) : [];
+  const textClass = size === 'sm' ? 'text-sm' : 'text-base';
+  const label = `${total}${suffix ? ` ${suffix}` : ''}`;
+
+  // Posts exported before breakdowns were recorded only have the total
+  if (reactions.length === 0) {
+    return (
+      <span className="flex items-center gap-2 text-gray-500">
+        <Heart className={size === 'sm' ? 'w-4 h-4' : 'w-5 h-5'} />
+        <span className={textClass}>{label}</span>
+      </span>
+    );
+  }
+
+  return (
+    <span className="relative group flex items-center gap-2 text-gray-500">
+      <span className="flex -space-x-1">
+        {reactions.slice(0, 3).map(({ type, count }) => (
+          <span
+            key={type}
+            className={`${size === 'sm' ? 'w-5 h-5 text-xs' : 'w-6 h-6 text-sm'} rounded-full bg-white ring-2 ring-white flex items-center justify-center`}
+            title={`${REACTION_LABELS[type].label}: ${count}`}
+            role="img"
+            aria-label={REACTION_LABELS[type].label}
+          >
+            {REACTION_LABELS[type].emoji}
+          </span>
+        ))}
+      </span>
+      <span className={textClass}>{label}</span>
+
+      {/* Tooltip with every type */}
+      <span className="pointer-events-none absolute bottom-full left-0 mb-2 hidden group-hover:block z-10 whitespace-nowrap rounded-md bg-gray-900 px-3 py-2 text-xs text-white shadow-lg">
+        {reactions.map(({ type, count }) => (
+          <span key={type} className="flex items-center gap-2">
+            <span>{REACTION_LABELS[type].emoji}</span>
+            <span>{REACTION_LABELS[type].label}</span>
+            <span className="ml-auto pl-3 tabular-nums">{count}</span>
+          </span>
+        ))}
+      </span>
+    </span>
+  );
+}
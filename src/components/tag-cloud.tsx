@@ -0,0 +1,43 @@
+'use client';
+
+import { useRouter } from 'next/navigation';
+import { TagCount, normalizeTag, tagHref } from '@/lib/tags';
+
+interface TagCloudProps {
+  tags: TagCount[];
+  activeTag?: string;
+  limit?: number;
+}
+
+const SIZE_CLASSES = ['text-xs', 'text-sm', 'text-base', 'text-lg', 'text-xl'];
+
+export function TagCloud({ tags, activeTag, limit = 60 }: TagCloudProps) {
+  const router = useRouter();
+  const shown = tags.slice(0, limit);
+
+  if (shown.length === 0) {
+    return <p className="text-sm text-gray-500">No tags found yet.</p>;
+  }
+
+  // Scale on a log curve so one very popular tag doesn't shrink the rest
+  const max = Math.log(shown[0].count + 1);
+  const sizeFor = (count: number) =>
+    SIZE_CLASSES[Math.min(SIZE_CLASSES.length - 1, Math.floor((Math.log(count + 1) / max) * (SIZE_CLASSES.length - 1)))];
+  const active = activeTag ? normalizeTag(activeTag) : '';
+
+  return (
+    <div className="flex flex-wrap items-baseline gap-x-3 gap-y-1">
+      {[...shown].sort((a, b) => a.tag.localeCompare(b.tag)).map(({ tag, count }) => (
+        <button
+          key={tag}
+          onClick={() => router.push(`${tagHref(tag)}${window.location.search}`)}
+          className={`${sizeFor(count)} ${tag === active ? 'text-blue-700 font-semibold' : 'text-gray-600 hover:text-blue-600'} transition-colors`}
+          title={`${count} post${count === 1 ? '' : 's'}`}
+        >
+          #{tag}
+          <span className="ml-0.5 text-xs text-gray-400">{count}</span>
+        </button>
+      ))}
+    </div>
+  );
+}
@@ -0,0 +1,105 @@
+'use client';
+
+import { useState } from 'react';
+import { PostAttachment } from '@/types/post';
+import { ExternalLink, Play } from 'lucide-react';
+import Image from 'next/image';
+import { resolveVideo } from '@/lib/video-embed';
+
+interface VideoAttachmentProps {
+  attachment: PostAttachment;
+  className?: string;
+}
+
+export function VideoAttachment({ attachment, className = '' }: VideoAttachmentProps) {
+  const [loaded, setLoaded] = useState(false);
+  const video = attachment.url ? resolveVideo(attachment.url) : null;
+  const poster = attachment.image;
+  const title = attachment.description || 'Video';
+
+  if (video?.kind === 'file') {
+    return (
+      <div className={className}>
+        <video
+          controls
+          preload={poster ? 'none' : 'metadata'}
+          poster={poster}
+          className="w-full rounded-lg bg-black"
+        >
+          <source src={video.src} type={video.mimeType} />
+          <a href={video.src} target="_blank" rel="noopener noreferrer">{title}</a>
+        </video>
+        {attachment.description && (
+          <p className="text-sm text-gray-600 mt-2">{attachment.description}</p>
+        )}
+      </div>
+    );
+  }
+
+  if (video?.kind === 'embed') {
+    return (
+      <div className={className}>
+        <div className="relative aspect-video rounded-lg overflow-hidden bg-gray-900">
+          {loaded ? (
+            <iframe
+              src={video.embedUrl}
+              title={title}
+              className="absolute inset-0 w-full h-full"
+              allow="autoplay; encrypted-media; picture-in-picture; fullscreen"
+              referrerPolicy="strict-origin-when-cross-origin"
+              allowFullScreen
+            />
+          ) : (
+            // Nothing is requested from the provider until the reader asks for the video
+            <button
+              onClick={() => setLoaded(true)}
+              className="group absolute inset-0 w-full h-full flex flex-col items-center justify-center text-white"
+              title={`Play video from ${video.provider}`}
+            >
+              {poster && (
+                <Image src={poster} alt="" fill className="object-cover opacity-70" unoptimized />
+              )}
+              <span className="relative w-16 h-16 rounded-full bg-black/60 group-hover:bg-red-600 flex items-center justify-center transition-colors">
+                <Play className="w-8 h-8 ml-1" fill="currentColor" />
+              </span>
+              <span className="relative mt-3 text-xs bg-black/60 px-2 py-1 rounded">
+                Plays from {video.provider}, which may set cookies
+              </span>
+            </button>
+          )}
+        </div>
+        {attachment.description && (
+          <p className="text-sm text-gray-600 mt-2">{attachment.description}</p>
+        )}
+      </div>
+    );
+  }
+
+  if (!attachment.url || !/^https?:\/\//i.test(attachment.url)) {
+    return null;
+  }
+
+  // Anything else is linked to, with the poster as a thumbnail
+  return (
+    <a
+      href={attachment.url}
+      target="_blank"
+      rel="noopener noreferrer"
+      className={`flex items-center gap-3 p-3 border border-gray-200 rounded-lg hover:bg-gray-50 transition-colors ${className}`}
+    >
+      <span className="relative flex-shrink-0 w-24 h-16 rounded bg-gray-200 overflow-hidden flex items-center justify-center">
+        {poster && (
+          <Image src={poster} alt="" fill className="object-cover" unoptimized />
+        )}
+        <Play className="relative w-6 h-6 text-white drop-shadow" fill="currentColor" />
+      </span>
+      <span className="min-w-0">
+        <span className="block text-sm font-medium text-gray-900 truncate">{title}</span>
+        <span className="inline-flex items-center gap-1 text-xs text-blue-600">
+          <ExternalLink className="w-3 h-3" />
+          Watch video
+        </span>
+      </span>
+    </a>
+  );
+}
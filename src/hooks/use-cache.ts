@@ -18,7 +18,7 @@ export function useCache(postLoader: PostLoader) {
   }, [postLoader]);
 
   const getCacheInfo = useCallback(() => {
-    return postLoader.getCacheInfo();
+    return postLoader.getStats().cache;
   }, [postLoader]);
 
   const preloadNextPage = useCallback((currentPage: number, pageSize: number = 10) => {
@@ -0,0 +1,100 @@
+'use client';
+
+import { useEffect, useState, useCallback, useRef } from 'react';
+import { Post } from '@/types/post';
+import { PostLoader } from '@/lib/post-loader';
+
+const WATCH_INTERVAL = 60 * 1000; // 1 minute while the tab is visible
+const MAX_WATCH_INTERVAL = 15 * 60 * 1000; // Hidden tabs and failing checks back off up to 15 minutes
+
+// Polls the source for posts added after the feed was loaded
+export function useNewPosts(postLoader: PostLoader, enabled: boolean) {
+  const [newPosts, setNewPosts] = useState<Post[]>([]);
+  const newPostsRef = useRef<Post[]>([]);
+  newPostsRef.current = newPosts;
+
+  useEffect(() => {
+    setNewPosts([]);
+    if (!enabled || !postLoader.getCapabilities().watch) {
+      return;
+    }
+
+    let timer: ReturnType<typeof setTimeout> | undefined;
+    let delay = WATCH_INTERVAL;
+    let lastCheck = Date.now();
+    let stopped = false;
+
+    const schedule = () => {
+      clearTimeout(timer);
+      timer = setTimeout(check, delay);
+    };
+
+    const check = async () => {
+      if (document.hidden) {
+        delay = Math.min(delay * 2, MAX_WATCH_INTERVAL);
+        schedule();
+        return;
+      }
+
+      lastCheck = Date.now();
+      try {
+        const found = await postLoader.checkForNewPosts();
+        if (stopped) return;
+        if (found.length > 0) {
+          setNewPosts(prev => {
+            const seen = new Set(prev.map(post => post.path));
+            return [...found.filter(post => !seen.has(post.path)), ...prev];
+          });
+        }
+        delay = WATCH_INTERVAL;
+      } catch (error) {
+        if (stopped) return;
+        console.warn('Failed to check for new posts:', error);
+        delay = Math.min(delay * 2, MAX_WATCH_INTERVAL);
+      }
+      schedule();
+    };
+
+    // Catch up right away when the tab comes back after a long backoff
+    const handleVisibilityChange = () => {
+      if (!document.hidden && Date.now() - lastCheck >= WATCH_INTERVAL) {
+        delay = WATCH_INTERVAL;
+        clearTimeout(timer);
+        check();
+      }
+    };
+
+    document.addEventListener('visibilitychange', handleVisibilityChange);
+    schedule();
+
+    return () => {
+      stopped = true;
+      clearTimeout(timer);
+      document.removeEventListener('visibilitychange', handleVisibilityChange);
+    };
+  }, [postLoader, enabled]);
+
+  // Show the count in the tab title so new posts are noticed from other tabs
+  useEffect(() => {
+    if (newPosts.length === 0) {
+      return;
+    }
+
+    const title = document.title;
+    document.title = `(${newPosts.length}) ${title}`;
+    return () => {
+      document.title = title;
+    };
+  }, [newPosts.length]);
+
+  const takeNewPosts = useCallback(() => {
+    const posts = newPostsRef.current;
+    setNewPosts([]);
+    return posts;
+  }, []);
+
+  return {
+    newPosts,
+    takeNewPosts,
+  };
+}
@@ -0,0 +1,77 @@
+'use client';
+
+import { useCallback, useEffect, useRef, useState } from 'react';
+import { PostLoader } from '@/lib/post-loader';
+import { SearchIndex, SearchResult } from '@/lib/search-index';
+
+const INDEX_PAGE_SIZE = 50;
+
+// When the rate limit resets, as shown to the user; 0 when the source doesn't report one
+function getBudgetReset(postLoader: PostLoader): number {
+  return (postLoader.getStats().queue?.resetTime || 0) * 1000;
+}
+
+// Results follow the index as it fills, whether from the feed, opened posts or indexing everything here
+export function useSearch(postLoader: PostLoader, searchIndex: SearchIndex, query: string) {
+  const [results, setResults] = useState<SearchResult[]>([]);
+  const [indexedCount, setIndexedCount] = useState(searchIndex.size);
+  const [indexing, setIndexing] = useState(false);
+  const [complete, setComplete] = useState(false);
+  const [error, setError] = useState('');
+  // Set when indexing stopped to leave the API budget for browsing; what was indexed is kept
+  const [pausedUntil, setPausedUntil] = useState<number | null>(null);
+  const stoppedRef = useRef(false);
+
+  useEffect(() => {
+    const update = () => {
+      setIndexedCount(searchIndex.size);
+      setResults(searchIndex.search(query));
+    };
+    update();
+    return searchIndex.subscribe(update);
+  }, [searchIndex, query]);
+
+  useEffect(() => {
+    stoppedRef.current = false;
+    return () => {
+      stoppedRef.current = true;
+      postLoader.cancel();
+    };
+  }, [postLoader]);
+
+  // Sources don't offer search, so every page is loaded once and added to the index. Pages come from the
+  // posts index where there is one and load in the background, behind anything the user is waiting on.
+  const indexAll = useCallback(async () => {
+    setIndexing(true);
+    setError('');
+    setPausedUntil(null);
+    const seen = new Set<string>();
+    try {
+      for (let page = 1; !stoppedRef.current; page++) {
+        // A page costs at most one request per post
+        if (!postLoader.hasBackgroundBudget(INDEX_PAGE_SIZE)) {
+          setPausedUntil(getBudgetReset(postLoader));
+          break;
+        }
+        const { posts, hasMore } = await postLoader.getPosts(page, INDEX_PAGE_SIZE, 'background');
+        if (stoppedRef.current) return;
+        posts.forEach(post => seen.add(post.path));
+        await searchIndex.addPosts(posts);
+        if (!hasMore) {
+          await searchIndex.prune(seen);
+          setComplete(true);
+          break;
+        }
+      }
+    } catch (err) {
+      if (!stoppedRef.current) {
+        console.error('Error indexing posts:', err);
+        setError(err instanceof Error ? err.message : 'Failed to load posts');
+      }
+    } finally {
+      if (!stoppedRef.current) setIndexing(false);
+    }
+  }, [postLoader, searchIndex]);
+
+  return { results, indexedCount, indexing, complete, error, pausedUntil, indexAll };
+}
@@ -0,0 +1,94 @@
+'use client';
+
+import { useCallback, useEffect, useMemo, useRef, useState } from 'react';
+import { Post } from '@/types/post';
+import { PostLoader } from '@/lib/post-loader';
+import { SearchIndex } from '@/lib/search-index';
+import { countTags, hasTag } from '@/lib/tags';
+
+const SCAN_PAGE_SIZE = 50;
+// Pages scanned per run; older posts are only scanned when asked for
+const SCAN_PAGES_PER_RUN = 4;
+
+interface TagScan {
+  posts: Post[];
+  nextPage: number;
+  hasMore: boolean;
+}
+
+const EMPTY_SCAN: TagScan = { posts: [], nextPage: 1, hasMore: true };
+
+// Kept per archive for the session, so moving between tags doesn't page through the feed again
+const scans = new Map<string, TagScan>();
+
+// Sources don't index tags, so the newest posts are paged through in the background and tags are counted
+// along the way. `archiveKey` identifies the archive (see getSearchScope).
+export function useTaggedPosts(postLoader: PostLoader, tag: string, archiveKey: string, searchIndex?: SearchIndex) {
+  const [scan, setScan] = useState<TagScan>(() => scans.get(archiveKey) || EMPTY_SCAN);
+  const [loading, setLoading] = useState(() => !scans.has(archiveKey));
+  const [error, setError] = useState('');
+  // Set when scanning stopped to leave the API budget for browsing
+  const [paused, setPaused] = useState(false);
+  // Bumped on every run and on unmount, so a superseded run stops touching state
+  const runRef = useRef(0);
+
+  const scanMore = useCallback(async () => {
+    const run = ++runRef.current;
+    let current = scans.get(archiveKey) || EMPTY_SCAN;
+    setLoading(true);
+    setError('');
+    setPaused(false);
+
+    try {
+      for (let count = 0; count < SCAN_PAGES_PER_RUN && current.hasMore; count++) {
+        // A page costs at most one request per post
+        if (!postLoader.hasBackgroundBudget(SCAN_PAGE_SIZE)) {
+          setPaused(true);
+          break;
+        }
+
+        const { posts, hasMore } = await postLoader.getPosts(current.nextPage, SCAN_PAGE_SIZE, 'background');
+        if (run !== runRef.current) return;
+
+        current = { posts: [...current.posts, ...posts], nextPage: current.nextPage + 1, hasMore };
+        scans.set(archiveKey, current);
+        searchIndex?.addPosts(posts);
+        setScan(current);
+      }
+    } catch (err) {
+      if (run === runRef.current) {
+        console.error('Error scanning posts for tags:', err);
+        setError(err instanceof Error ? err.message : 'Failed to load posts');
+      }
+    } finally {
+      if (run === runRef.current) setLoading(false);
+    }
+  }, [postLoader, archiveKey, searchIndex]);
+
+  // Only the first visit to an archive scans on its own
+  useEffect(() => {
+    const cached = scans.get(archiveKey);
+    setScan(cached || EMPTY_SCAN);
+    if (!cached) {
+      scanMore();
+    }
+    return () => {
+      runRef.current++;
+      postLoader.cancel();
+    };
+  }, [postLoader, archiveKey, scanMore]);
+
+  const posts = useMemo(() => scan.posts.filter(post => hasTag(post, tag)), [scan, tag]);
+  const tagCounts = useMemo(() => countTags(scan.posts), [scan]);
+
+  return {
+    posts,
+    tagCounts,
+    scanned: scan.posts.length,
+    hasMore: scan.hasMore,
+    loading,
+    paused,
+    error,
+    scanMore,
+  };
+}
@@ -0,0 +1,67 @@
+import type { Element, ElementContent, Root, RootContent } from 'hast';
+
+interface TextRun {
+  value: string;
+  // Highlight spans the text sits in, outermost first
+  wrappers: Element[];
+}
+
+function collectRuns(nodes: ElementContent[], wrappers: Element[], runs: TextRun[]) {
+  for (const node of nodes) {
+    if (node.type === 'text') {
+      runs.push({ value: node.value, wrappers });
+    } else if (node.type === 'element') {
+      collectRuns(node.children, [...wrappers, node], runs);
+    }
+  }
+}
+
+function wrapText(value: string, wrappers: Element[]): ElementContent {
+  return wrappers.reduceRight<ElementContent>(
+    (child, wrapper) => ({ type: 'element', tagName: wrapper.tagName, properties: wrapper.properties, children: [child] }),
+    { type: 'text', value }
+  );
+}
+
+// Splits highlighted code into one `span.code-line` per line, reopening highlight spans
+// (e.g. multi-line comments) on every line they cover
+function splitLines(code: Element) {
+  const runs: TextRun[] = [];
+  collectRuns(code.children, [], runs);
+
+  const lines: ElementContent[][] = [[]];
+  for (const { value, wrappers } of runs) {
+    value.split('\n').forEach((part, index) => {
+      if (index > 0) lines.push([]);
+      if (part) lines[lines.length - 1].push(wrapText(part, wrappers));
+    });
+  }
+  // The newline that ends the last line doesn't start another
+  if (lines.length > 1 && lines[lines.length - 1].length === 0) {
+    lines.pop();
+  }
+
+  code.children = lines.flatMap((children, index): ElementContent[] => [
+    { type: 'element', tagName: 'span', properties: { className: ['code-line'] }, children },
+    ...(index < lines.length - 1 ? [{ type: 'text' as const, value: '\n' }] : []),
+  ]);
+}
+
+function visit(node: Root | RootContent) {
+  if (node.type !== 'root' && node.type !== 'element') {
+    return;
+  }
+  if (node.type === 'element' && node.tagName === 'pre') {
+    const code = node.children.find((child): child is Element => child.type === 'element' && child.tagName === 'code');
+    if (code) {
+      splitLines(code);
+      return;
+    }
+  }
+  node.children.forEach(visit);
+}
+
+// Rehype plugin that marks up every line of a code block so CSS can number them; runs after highlighting
+export function rehypeCodeLines() {
+  return (tree: Root) => visit(tree);
+}
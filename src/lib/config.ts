@@ -1,14 +1,19 @@
 import { FeedConfig } from '@/types/post';
 
 const CONFIG_KEY = 'feed-watcher-config';
+// Tokens live under their own key so the stored config never contains credentials
+const TOKEN_KEY = 'feed-watcher-token';
 
 export const defaultConfig: FeedConfig = {
+  source: 'auto',
   repositoryUrl: 'https://github.com/monokaijs/j2team-backup',
   owner: 'monokaijs',
   repo: 'j2team-backup',
   postsPath: 'posts/j2team-community-backup',
 };
 
+export type RepositoryHost = 'github' | 'gitlab' | 'gitea';
+
 export function parseRepositoryUrl(url: string): { owner: string; repo: string } | null {
   try {
     // Handle both github.com URLs and API URLs
@@ -20,6 +25,20 @@ export function parseRepositoryUrl(url: string): { owner: string; repo: string }
       const repo = match[2].replace(/\.git$/, ''); // Remove .git suffix if present
       return { owner, repo };
     }
+
+    // Self-hosted GitLab/Gitea: drop UI suffixes such as /-/tree/main or /src/branch/main
+    const parsedUrl = new URL(url);
+    const segments = parsedUrl.pathname
+      .replace(/\/(-\/.*|src\/(branch|tag|commit)\/.*)$/, '')
+      .split('/')
+      .filter(Boolean);
+
+    if (segments.length >= 2) {
+      // GitLab allows nested groups, so everything before the project name is the owner
+      const repo = segments[segments.length - 1].replace(/\.git$/, '');
+      const owner = segments.slice(0, -1).join('/');
+      return { owner, repo };
+    }
     
     return null;
   } catch (error) {
@@ -28,22 +47,45 @@ export function parseRepositoryUrl(url: string): { owner: string; repo: string }
   }
 }
 
+export function detectRepositoryHost(url: string): { source: RepositoryHost; baseUrl: string } | null {
+  try {
+    const { hostname, origin } = new URL(url);
+
+    if (hostname === 'github.com' || hostname === 'www.github.com') {
+      return { source: 'github', baseUrl: 'https://api.github.com' };
+    }
+    if (hostname === 'gitlab.com' || hostname.includes('gitlab')) {
+      return { source: 'gitlab', baseUrl: origin };
+    }
+    // Codeberg runs Forgejo, which speaks the Gitea API
+    if (hostname === 'codeberg.org' || hostname.includes('gitea') || hostname.includes('forgejo')) {
+      return { source: 'gitea', baseUrl: origin };
+    }
+
+    return null;
+  } catch {
+    return null;
+  }
+}
+
 export function validateRepositoryUrl(url: string): boolean {
   const parsed = parseRepositoryUrl(url);
   return parsed !== null;
 }
 
-export function getConfig(): FeedConfig {
+function getStoredConfig(): FeedConfig {
   if (typeof window === 'undefined') {
     return defaultConfig;
   }
   
   try {
+    const token = getToken();
     const stored = localStorage.getItem(CONFIG_KEY);
     if (stored) {
       const config = JSON.parse(stored) as FeedConfig;
-      return { ...defaultConfig, ...config };
+      return { ...defaultConfig, ...config, token };
     }
+    return { ...defaultConfig, token };
   } catch (error) {
     console.error('Error loading config from localStorage:', error);
   }
@@ -51,14 +93,128 @@ export function getConfig(): FeedConfig {
   return defaultConfig;
 }
 
+// Query parameters a shared link may carry; anything else in the URL belongs to the page
+const SNAPSHOT_PARAMS = ['repo', 'source', 'baseUrl', 'path', 'ref', 'asOf'];
+const SHAREABLE_SOURCES: string[] = ['github', 'gitlab', 'gitea'];
+
+// Reads `repo`, `source`, `baseUrl`, `path`, `ref` and `asOf` from the page URL so shared links open the same snapshot.
+// `repo` is `owner/name` on GitHub or the full repository URL on other hosts.
+export function getUrlOverrides(): Partial<FeedConfig> {
+  if (typeof window === 'undefined') {
+    return {};
+  }
+
+  const params = new URLSearchParams(window.location.search);
+  const overrides: Partial<FeedConfig> = {};
+
+  const repo = params.get('repo');
+  if (repo && /^[^\/\s]+\/[^\/\s]+$/.test(repo)) {
+    const [owner, name] = repo.split('/');
+    overrides.owner = owner;
+    overrides.repo = name;
+    overrides.repositoryUrl = `https://github.com/${owner}/${name}`;
+    overrides.source = 'github';
+    overrides.baseUrl = undefined;
+  } else if (repo && /^https?:\/\//.test(repo)) {
+    const parsed = parseRepositoryUrl(repo);
+    if (parsed) {
+      overrides.owner = parsed.owner;
+      overrides.repo = parsed.repo;
+      overrides.repositoryUrl = repo;
+      // Hosts on their own domain can't be detected from the URL, so the link names them
+      const source = params.get('source');
+      overrides.source = source && SHAREABLE_SOURCES.includes(source) ? source : 'auto';
+      const baseUrl = params.get('baseUrl');
+      overrides.baseUrl = baseUrl && /^https?:\/\//.test(baseUrl) ? baseUrl : undefined;
+    }
+  }
+
+  const postsPath = params.get('path');
+  if (postsPath) {
+    overrides.postsPath = postsPath;
+  }
+
+  const ref = params.get('ref');
+  if (ref) {
+    overrides.ref = ref;
+  }
+
+  const asOf = params.get('asOf');
+  if (asOf && !isNaN(new Date(asOf).getTime())) {
+    overrides.asOf = asOf;
+  }
+
+  return overrides;
+}
+
+export function clearUrlOverrides(): void {
+  if (typeof window === 'undefined' || !window.location.search) {
+    return;
+  }
+
+  // Other parameters (such as a search query) and the hash stay as they are
+  const params = new URLSearchParams(window.location.search);
+  SNAPSHOT_PARAMS.forEach(name => params.delete(name));
+  const query = params.toString();
+  window.history.replaceState(null, '', `${window.location.pathname}${query ? `?${query}` : ''}${window.location.hash}`);
+}
+
+export function getConfig(): FeedConfig {
+  return { ...getStoredConfig(), ...getUrlOverrides() };
+}
+
+// Date-only values select the end of that day so the snapshot includes its commits
+export function toSnapshotTimestamp(asOf: string): string {
+  if (/^\d{4}-\d{2}-\d{2}$/.test(asOf)) {
+    return `${asOf}T23:59:59Z`;
+  }
+  return new Date(asOf).toISOString();
+}
+
+export function getSnapshotQuery(config: FeedConfig, includeRepository: boolean = false): string {
+  const params = new URLSearchParams();
+
+  if (includeRepository) {
+    const source = config.source && config.source !== 'auto'
+      ? config.source
+      : detectRepositoryHost(config.repositoryUrl)?.source;
+    if (source === 'github') {
+      params.set('repo', `${config.owner}/${config.repo}`);
+    } else {
+      params.set('repo', config.repositoryUrl);
+      if (source && SHAREABLE_SOURCES.includes(source)) {
+        params.set('source', source);
+      }
+      if (config.baseUrl) {
+        params.set('baseUrl', config.baseUrl);
+      }
+    }
+    params.set('path', config.postsPath);
+  }
+  if (config.ref) {
+    params.set('ref', config.ref);
+  }
+  if (config.asOf) {
+    params.set('asOf', config.asOf);
+  }
+
+  const query = params.toString();
+  return query ? `?${query}` : '';
+}
+
 export function saveConfig(config: Partial<FeedConfig>): void {
   if (typeof window === 'undefined') {
     return;
   }
   
   try {
-    const currentConfig = getConfig();
-    const newConfig = { ...currentConfig, ...config };
+    const { token: _currentToken, ...currentConfig } = getStoredConfig();
+    const { token, ...configWithoutToken } = config;
+    const newConfig = { ...currentConfig, ...configWithoutToken };
+
+    if (token !== undefined) {
+      saveToken(token);
+    }
     
     // Parse repository URL to update owner/repo
     if (config.repositoryUrl) {
@@ -86,3 +242,37 @@ export function resetConfig(): void {
     console.error('Error resetting config:', error);
   }
 }
+
+export function getToken(): string | undefined {
+  if (typeof window === 'undefined') {
+    return undefined;
+  }
+
+  try {
+    return localStorage.getItem(TOKEN_KEY) || undefined;
+  } catch (error) {
+    console.error('Error loading token from localStorage:', error);
+    return undefined;
+  }
+}
+
+export function saveToken(token: string): void {
+  if (typeof window === 'undefined') {
+    return;
+  }
+
+  try {
+    const trimmed = token.trim();
+    if (trimmed) {
+      localStorage.setItem(TOKEN_KEY, trimmed);
+    } else {
+      localStorage.removeItem(TOKEN_KEY);
+    }
+  } catch (error) {
+    console.error('Error saving token to localStorage:', error);
+  }
+}
+
+export function clearToken(): void {
+  saveToken('');
+}
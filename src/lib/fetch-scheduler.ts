@@ -0,0 +1,53 @@
+export type ScheduledResult<T> =
+  | { status: 'fulfilled'; value: T }
+  | { status: 'rejected'; reason: unknown };
+
+interface ScheduleOptions {
+  concurrency?: number;
+  signal?: AbortSignal;
+}
+
+export const DEFAULT_CONCURRENCY = 4;
+
+export function createAbortError(): Error {
+  return new DOMException('Request cancelled', 'AbortError');
+}
+
+export function isAbortError(error: unknown): boolean {
+  return error instanceof Error && error.name === 'AbortError';
+}
+
+export async function runWithConcurrency<I, T>(
+  items: I[],
+  worker: (item: I, index: number, signal?: AbortSignal) => Promise<T>,
+  options: ScheduleOptions = {}
+): Promise<ScheduledResult<T>[]> {
+  const { signal } = options;
+  const concurrency = Math.max(1, Math.floor(options.concurrency || DEFAULT_CONCURRENCY));
+  // Results are stored by index so callers get them back in input order
+  const results: ScheduledResult<T>[] = new Array(items.length);
+  let nextIndex = 0;
+
+  const runNext = async (): Promise<void> => {
+    while (nextIndex < items.length) {
+      if (signal?.aborted) {
+        throw createAbortError();
+      }
+
+      const index = nextIndex++;
+      try {
+        results[index] = { status: 'fulfilled', value: await worker(items[index], index, signal) };
+      } catch (error) {
+        if (isAbortError(error)) {
+          throw error;
+        }
+        results[index] = { status: 'rejected', reason: error };
+      }
+    }
+  };
+
+  const lanes = Array.from({ length: Math.min(concurrency, items.length) }, () => runNext());
+  await Promise.all(lanes);
+
+  return results;
+}
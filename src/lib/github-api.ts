@@ -1,6 +1,23 @@
-import { GitHubContentsResponse, Post, FeedConfig } from '@/types/post';
-import { parseMDXContent, extractDateFromFileName } from './mdx-parser';
+import {
+  GitHubContentsResponse,
+  GitHubCommitResponse,
+  GitHubCompareResponse,
+  GitHubTreeResponse,
+  GitHubBlobResponse,
+  GitHubRefResponse,
+  PostFileEntry,
+  PostRevision,
+  Post,
+  PostsPage,
+  FeedConfig,
+} from '@/types/post';
 import { persistentCache } from './persistent-cache';
+import { toSnapshotTimestamp } from './config';
+import { PostStore, PostFileChange } from './post-store';
+import { isAbortError } from './fetch-scheduler';
+import { isPostFile, sortPostFiles, loadPostsPage } from './post-files';
+import { PostIndexReader, parseIndexManifest, POSTS_INDEX_DIR, POSTS_INDEX_MANIFEST } from './posts-index';
+import { requestQueues, RequestQueue, RequestPriority, RequestQueueState, RateLimitError } from './request-queue';
 
 const GITHUB_API_BASE = 'https://api.github.com';
 
@@ -11,32 +28,88 @@ export class GitHubAPIError extends Error {
   }
 }
 
+export interface TokenCheckResult {
+  valid: boolean;
+  login?: string;
+  scopes: string[];
+  limit: number;
+  remaining: number;
+  resetTime: number;
+  error?: string;
+}
+
 interface CacheEntry {
   data: any;
   timestamp: number;
   etag?: string;
+  immutable?: boolean;
 }
 
+// GitHub stops listing files of a compare past this many, so larger deltas re-list the folder
+const MAX_COMPARE_FILES = 300;
+
 export class GitHubAPI {
   private config: FeedConfig;
   private cache: Map<string, CacheEntry> = new Map();
-  private rateLimitRemaining: number = 60;
-  private rateLimitReset: number = 0;
+  private abortController: AbortController = new AbortController();
   private readonly CACHE_DURATION = 5 * 60 * 1000; // 5 minutes
   private readonly LONG_CACHE_DURATION = 30 * 60 * 1000; // 30 minutes for file content
+  private readonly IMMUTABLE_CACHE_DURATION = 365 * 24 * 60 * 60 * 1000; // SHA-addressed objects never change
+  private readonly REVALIDATE_CACHE_DURATION = 0; // Always ask GitHub, relying on the ETag for cheap 304s
+  private readonly HISTORY_PAGE_SIZE = 100; // The commits API maximum
+  // Watch mode compares listings against every post path seen so far
+  private knownPostPaths: Set<string> | null = null;
+  private lastPostsCommitSha?: string;
+  private postStore: PostStore | null;
+  // Head of the ref as of the current sync; later pages and preloads reuse it instead of asking again
+  private syncHead: Promise<GitHubCommitResponse> | null = null;
+  // Reader of the current posts index, kept across pages so every shard is read once per build;
+  // shards load at the priority of the page that first needs them
+  private postIndex: { manifestSha: string; reader: PostIndexReader; priority: RequestPriority } | null = null;
 
   constructor(config: FeedConfig) {
     this.config = config;
+    this.postStore = this.createPostStore();
+  }
+
+  // Snapshots of a past date are read straight from their commit tree, so only live refs are synced
+  private createPostStore(): PostStore | null {
+    return this.config.asOf ? null : new PostStore(PostStore.keyFor(this.config));
   }
 
   updateConfig(config: FeedConfig) {
     this.config = config;
+    this.postStore = this.createPostStore();
+    this.syncHead = null;
     this.cache.clear(); // Clear cache when config changes
+    this.cancel(); // Abort requests still running for the previous config
   }
 
-  private async makeRequest<T>(endpoint: string, cacheDuration?: number): Promise<T> {
+  cancel() {
+    this.abortController.abort();
+    this.abortController = new AbortController();
+  }
+
+  private get requestQueue(): RequestQueue {
+    return this.config.token ? requestQueues.authenticated : requestQueues.anonymous;
+  }
+
+  private getHeaders(): Record<string, string> {
+    const headers: Record<string, string> = {
+      'Accept': 'application/vnd.github.v3+json',
+      'User-Agent': 'FeedWatcher-UI/1.0',
+    };
+
+    if (this.config.token) {
+      headers['Authorization'] = `Bearer ${this.config.token}`;
+    }
+
+    return headers;
+  }
+
+  private async makeRequest<T>(endpoint: string, cacheDuration?: number, priority: RequestPriority = 'user'): Promise<T> {
     const url = `${GITHUB_API_BASE}${endpoint}`;
-    const duration = cacheDuration || this.CACHE_DURATION;
+    const duration = cacheDuration ?? this.CACHE_DURATION;
     const cacheKey = `api:${endpoint}`;
 
     // Check memory cache first
@@ -57,16 +130,8 @@ export class GitHubAPI {
       return persistentEntry.data;
     }
 
-    // Check rate limit
-    if (this.rateLimitRemaining <= 1 && Date.now() < this.rateLimitReset * 1000) {
-      throw new GitHubAPIError('Rate limit exceeded. Please try again later.');
-    }
-
     try {
-      const headers: Record<string, string> = {
-        'Accept': 'application/vnd.github.v3+json',
-        'User-Agent': 'FeedWatcher-UI/1.0',
-      };
+      const headers = this.getHeaders();
 
       // Add ETag for conditional requests if we have cached data
       const cachedEntry = this.cache.get(url) || persistentEntry;
@@ -74,11 +139,11 @@ export class GitHubAPI {
         headers['If-None-Match'] = cachedEntry.etag;
       }
 
-      const response = await fetch(url, { headers });
-
-      // Update rate limit info
-      this.rateLimitRemaining = parseInt(response.headers.get('X-RateLimit-Remaining') || '60');
-      this.rateLimitReset = parseInt(response.headers.get('X-RateLimit-Reset') || '0');
+      // The queue handles rate limits, retries and backoff before handing back a response
+      const response = await this.requestQueue.schedule(
+        signal => fetch(url, { headers, signal }),
+        { priority, signal: this.abortController.signal }
+      );
 
       // Handle 304 Not Modified - return cached data
       if (response.status === 304 && cachedEntry) {
@@ -91,8 +156,14 @@ export class GitHubAPI {
       if (!response.ok) {
         if (response.status === 404) {
           throw new GitHubAPIError('Repository or path not found', 404);
-        } else if (response.status === 403) {
-          throw new GitHubAPIError('Access forbidden or rate limit exceeded', 403);
+        } else if (response.status === 401) {
+          throw new GitHubAPIError('Invalid or expired access token', 401);
+        } else if (response.status === 403 || response.status === 429) {
+          const rateLimited = this.requestQueue.getState().remaining === 0 || response.headers.has('Retry-After');
+          throw new GitHubAPIError(
+            rateLimited ? 'Rate limit exceeded. Please try again later.' : 'Access forbidden or rate limit exceeded',
+            response.status
+          );
         } else {
           throw new GitHubAPIError(`GitHub API error: ${response.statusText}`, response.status);
         }
@@ -105,101 +176,455 @@ export class GitHubAPI {
         data,
         timestamp: Date.now(),
         etag: etag || undefined,
+        immutable: duration === this.IMMUTABLE_CACHE_DURATION,
       };
 
       // Cache in both memory and persistent storage
       this.cache.set(url, cacheEntry);
-      persistentCache.set(cacheKey, data, duration, etag || undefined);
+      if (duration > 0) {
+        persistentCache.set(cacheKey, data, duration, etag || undefined);
+      }
 
       console.log(`Fresh data cached for: ${endpoint}`);
       return data;
     } catch (error) {
-      if (error instanceof GitHubAPIError) {
+      if (error instanceof GitHubAPIError || isAbortError(error)) {
         throw error;
       }
+      if (error instanceof RateLimitError) {
+        throw new GitHubAPIError(error.message, 403);
+      }
       throw new GitHubAPIError(`Network error: ${error instanceof Error ? error.message : 'Unknown error'}`);
     }
   }
 
+  private getRefQuery(): string {
+    return this.config.ref ? `?ref=${encodeURIComponent(this.config.ref)}` : '';
+  }
+
   async getRepositoryContents(path: string = ''): Promise<GitHubContentsResponse[]> {
-    const endpoint = `/repos/${this.config.owner}/${this.config.repo}/contents/${path}`;
+    const endpoint = `/repos/${this.config.owner}/${this.config.repo}/contents/${path}${this.getRefQuery()}`;
     return this.makeRequest<GitHubContentsResponse[]>(endpoint, this.CACHE_DURATION);
   }
 
-  async getFileContent(path: string): Promise<string> {
-    const endpoint = `/repos/${this.config.owner}/${this.config.repo}/contents/${path}`;
-    const response = await this.makeRequest<GitHubContentsResponse>(endpoint, this.LONG_CACHE_DURATION);
+  private decodeBase64Content(content: string): string {
+    try {
+      // Decode base64 content with proper UTF-8 handling
+      const base64Content = content.replace(/\s/g, '');
+      const binaryString = atob(base64Content);
+
+      // Convert binary string to UTF-8
+      const bytes = new Uint8Array(binaryString.length);
+      for (let i = 0; i < binaryString.length; i++) {
+        bytes[i] = binaryString.charCodeAt(i);
+      }
+
+      return new TextDecoder('utf-8').decode(bytes);
+    } catch (error) {
+      console.error('Error decoding file content:', error);
+      // Fallback to simple atob if UTF-8 decoding fails
+      return atob(content.replace(/\s/g, ''));
+    }
+  }
+
+  async getBlobContent(sha: string, priority: RequestPriority = 'user'): Promise<string> {
+    const endpoint = `/repos/${this.config.owner}/${this.config.repo}/git/blobs/${sha}`;
+    // Blobs are addressed by SHA, so the same content is cached once regardless of its path
+    const response = await this.makeRequest<GitHubBlobResponse>(endpoint, this.IMMUTABLE_CACHE_DURATION, priority);
 
     if (response.content && response.encoding === 'base64') {
+      return this.decodeBase64Content(response.content);
+    }
+
+    if (response.encoding === 'utf-8') {
+      return response.content;
+    }
+
+    throw new GitHubAPIError('Unable to decode file content');
+  }
+
+  async getFileContent(path: string, sha?: string, priority: RequestPriority = 'user'): Promise<string> {
+    if (sha) {
+      return this.getBlobContent(sha, priority);
+    }
+
+    // The synced listing knows the blob of every post, once it has caught up with the head of the ref
+    if (this.postStore?.findFile(path)) {
       try {
-        // Decode base64 content with proper UTF-8 handling
-        const base64Content = response.content.replace(/\s/g, '');
-        const binaryString = atob(base64Content);
-
-        // Convert binary string to UTF-8
-        const bytes = new Uint8Array(binaryString.length);
-        for (let i = 0; i < binaryString.length; i++) {
-          bytes[i] = binaryString.charCodeAt(i);
+        const currentFile = (await this.syncPostFiles(priority)).find(file => file.path === path);
+        if (currentFile) {
+          return this.getBlobContent(currentFile.sha, priority);
         }
-
-        return new TextDecoder('utf-8').decode(bytes);
       } catch (error) {
-        console.error('Error decoding file content:', error);
-        // Fallback to simple atob if UTF-8 decoding fails
-        return atob(response.content.replace(/\s/g, ''));
+        if (isAbortError(error)) {
+          throw error;
+        }
+        console.warn(`Failed to sync the listing for ${path}, reading it directly:`, error);
       }
     }
 
+    // A point-in-time snapshot has to go through the resolved commit tree
+    if (this.config.asOf) {
+      const segments = path.split('/').filter(Boolean);
+      const files = await this.getRepositoryTree(segments.slice(0, -1).join('/'), priority);
+      const file = files.find(item => item.path === segments.join('/'));
+      if (!file) {
+        throw new GitHubAPIError('Repository or path not found', 404);
+      }
+      return this.getBlobContent(file.sha, priority);
+    }
+
+    const endpoint = `/repos/${this.config.owner}/${this.config.repo}/contents/${path}${this.getRefQuery()}`;
+    const response = await this.makeRequest<GitHubContentsResponse>(endpoint, this.LONG_CACHE_DURATION, priority);
+
+    if (response.content && response.encoding === 'base64') {
+      return this.decodeBase64Content(response.content);
+    }
+
+    // The contents API omits the body of files larger than 1 MB, fetch them through the blob instead
+    if (response.type === 'file' && response.sha) {
+      console.log(`Content omitted for ${path} (${response.size} bytes), fetching blob`);
+      return this.getBlobContent(response.sha, priority);
+    }
+
     throw new GitHubAPIError('Unable to decode file content');
   }
 
-  async getPosts(page: number = 1, pageSize: number = 10): Promise<{ posts: Post[]; hasMore: boolean }> {
+  private getLatestCommitEndpoint(): string {
+    const params = new URLSearchParams({ per_page: '1' });
+    if (this.config.ref) {
+      params.set('sha', this.config.ref);
+    }
+    if (this.config.asOf) {
+      params.set('until', toSnapshotTimestamp(this.config.asOf));
+    }
+
+    return `/repos/${this.config.owner}/${this.config.repo}/commits?${params.toString()}`;
+  }
+
+  async getLatestCommit(priority: RequestPriority = 'user'): Promise<GitHubCommitResponse> {
+    // The head of a live ref is revalidated every time; unchanged heads cost a 304
+    const duration = this.config.asOf ? this.CACHE_DURATION : this.REVALIDATE_CACHE_DURATION;
+    const commits = await this.makeRequest<GitHubCommitResponse[]>(this.getLatestCommitEndpoint(), duration, priority);
+
+    if (commits.length === 0) {
+      throw new GitHubAPIError(
+        this.config.asOf ? 'No commits found before the selected date' : 'Repository has no commits',
+        404
+      );
+    }
+
+    return commits[0];
+  }
+
+  async getFileHistory(path: string, priority: RequestPriority = 'user'): Promise<PostRevision[]> {
+    const params = new URLSearchParams({ path, per_page: String(this.HISTORY_PAGE_SIZE) });
+    if (this.config.ref) {
+      params.set('sha', this.config.ref);
+    }
+    if (this.config.asOf) {
+      params.set('until', toSnapshotTimestamp(this.config.asOf));
+    }
+
+    // The commits API returns at most 100 per page; a short page is the last one
+    const commits: GitHubCommitResponse[] = [];
+    for (let page = 1; ; page++) {
+      params.set('page', String(page));
+      const endpoint = `/repos/${this.config.owner}/${this.config.repo}/commits?${params.toString()}`;
+      const batch = await this.makeRequest<GitHubCommitResponse[]>(endpoint, this.CACHE_DURATION, priority);
+      commits.push(...batch);
+      if (batch.length < this.HISTORY_PAGE_SIZE) {
+        break;
+      }
+    }
+
+    return commits.map(commit => ({
+      sha: commit.sha,
+      message: commit.commit.message,
+      author: commit.commit.author?.name || commit.commit.committer.name,
+      date: commit.commit.author?.date || commit.commit.committer.date,
+      url: commit.html_url,
+    }));
+  }
+
+  // Returns null when the file doesn't exist at that commit, e.g. the commit that deleted it
+  async getFileContentAt(path: string, commitSha: string, priority: RequestPriority = 'user'): Promise<string | null> {
+    const endpoint = `/repos/${this.config.owner}/${this.config.repo}/contents/${path}?ref=${commitSha}`;
+
     try {
-      const files = await this.getRepositoryContents(this.config.postsPath);
-      
-      // Filter for MDX files and sort by date (newest first)
-      const mdxFiles = files
-        .filter(file => file.type === 'file' && file.name.endsWith('.mdx'))
-        .sort((a, b) => {
-          const dateA = extractDateFromFileName(a.name);
-          const dateB = extractDateFromFileName(b.name);
-          if (dateA && dateB) {
-            return dateB.getTime() - dateA.getTime();
-          }
-          return b.name.localeCompare(a.name);
-        });
-
-      // Calculate pagination
-      const startIndex = (page - 1) * pageSize;
-      const endIndex = startIndex + pageSize;
-      const paginatedFiles = mdxFiles.slice(startIndex, endIndex);
-      const hasMore = endIndex < mdxFiles.length;
-
-      // Fetch and parse posts
-      const posts: Post[] = [];
-      
-      for (const file of paginatedFiles) {
-        try {
-          const content = await this.getFileContent(file.path);
-          const post = parseMDXContent(content, file.name, file.path);
-          if (post) {
-            posts.push(post);
-          }
-        } catch (error) {
-          console.error(`Error processing file ${file.name}:`, error);
-          // Continue with other files even if one fails
+      // A path at a commit never changes
+      const response = await this.makeRequest<GitHubContentsResponse>(endpoint, this.IMMUTABLE_CACHE_DURATION, priority);
+      if (response.content && response.encoding === 'base64') {
+        return this.decodeBase64Content(response.content);
+      }
+      return this.getBlobContent(response.sha, priority);
+    } catch (error) {
+      if (error instanceof GitHubAPIError && error.status === 404) {
+        return null;
+      }
+      throw error;
+    }
+  }
+
+  async getBranches(): Promise<GitHubRefResponse[]> {
+    const endpoint = `/repos/${this.config.owner}/${this.config.repo}/branches?per_page=100`;
+    return this.makeRequest<GitHubRefResponse[]>(endpoint, this.CACHE_DURATION);
+  }
+
+  async getTags(): Promise<GitHubRefResponse[]> {
+    const endpoint = `/repos/${this.config.owner}/${this.config.repo}/tags?per_page=100`;
+    return this.makeRequest<GitHubRefResponse[]>(endpoint, this.CACHE_DURATION);
+  }
+
+  async getTree(sha: string, recursive: boolean = false, priority: RequestPriority = 'user'): Promise<GitHubTreeResponse> {
+    const endpoint = `/repos/${this.config.owner}/${this.config.repo}/git/trees/${sha}${recursive ? '?recursive=1' : ''}`;
+    // Trees are addressed by SHA and never change, so they can be cached for a long time
+    return this.makeRequest<GitHubTreeResponse>(endpoint, this.IMMUTABLE_CACHE_DURATION, priority);
+  }
+
+  private async resolveTreeSha(rootTreeSha: string, path: string, priority: RequestPriority): Promise<string> {
+    let treeSha = rootTreeSha;
+
+    for (const segment of path.split('/').filter(Boolean)) {
+      const tree = await this.getTree(treeSha, false, priority);
+      const entry = tree.tree.find(item => item.type === 'tree' && item.path === segment);
+      if (!entry) {
+        throw new GitHubAPIError('Repository or path not found', 404);
+      }
+      treeSha = entry.sha;
+    }
+
+    return treeSha;
+  }
+
+  private async listTreeFiles(treeSha: string, basePath: string, priority: RequestPriority): Promise<PostFileEntry[]> {
+    const toEntry = (relativePath: string, sha: string, size?: number): PostFileEntry => {
+      const path = basePath ? `${basePath}/${relativePath}` : relativePath;
+      return {
+        name: path.split('/').pop() || path,
+        path,
+        sha,
+        size: size || 0,
+      };
+    };
+
+    const recursiveTree = await this.getTree(treeSha, true, priority);
+    if (!recursiveTree.truncated) {
+      return recursiveTree.tree
+        .filter(item => item.type === 'blob')
+        .map(item => toEntry(item.path, item.sha, item.size));
+    }
+
+    // GitHub truncates very large recursive listings, so walk one level at a time instead
+    console.warn(`Tree listing truncated for ${basePath || '/'}, walking subtrees`);
+    const tree = await this.getTree(treeSha, false, priority);
+    const files: PostFileEntry[] = [];
+
+    for (const item of tree.tree) {
+      if (item.type === 'blob') {
+        files.push(toEntry(item.path, item.sha, item.size));
+      } else if (item.type === 'tree') {
+        const subPath = basePath ? `${basePath}/${item.path}` : item.path;
+        files.push(...await this.listTreeFiles(item.sha, subPath, priority));
+      }
+    }
+
+    return files;
+  }
+
+  async getRepositoryTree(path: string = '', priority: RequestPriority = 'user'): Promise<PostFileEntry[]> {
+    const normalizedPath = path.split('/').filter(Boolean).join('/');
+    const commit = await this.getLatestCommit(priority);
+    const treeSha = await this.resolveTreeSha(commit.commit.tree.sha, normalizedPath, priority);
+    return this.listTreeFiles(treeSha, normalizedPath, priority);
+  }
+
+  // Returns the files changed between two commits, or null when a delta can't be applied
+  private async compareCommits(base: string, head: string, priority: RequestPriority): Promise<PostFileChange[] | null> {
+    const endpoint = `/repos/${this.config.owner}/${this.config.repo}/compare/${base}...${head}`;
+
+    try {
+      const comparison = await this.makeRequest<GitHubCompareResponse>(endpoint, this.IMMUTABLE_CACHE_DURATION, priority);
+      // Force pushes and ref switches leave the stored commit off the new history
+      if (comparison.status !== 'ahead' && comparison.status !== 'identical') {
+        return null;
+      }
+
+      const files = comparison.files || [];
+      if (files.length >= MAX_COMPARE_FILES) {
+        return null;
+      }
+
+      return files
+        .filter(file => file.status !== 'unchanged')
+        .map(file => ({
+          status: file.status === 'removed' || file.status === 'renamed' || file.status === 'added'
+            ? file.status
+            : 'modified',
+          path: file.filename,
+          sha: file.sha,
+          previousPath: file.previous_filename,
+        }));
+    } catch (error) {
+      if (isAbortError(error)) {
+        throw error;
+      }
+      console.warn('Compare failed, listing the posts folder again:', error);
+      return null;
+    }
+  }
+
+  // Revalidates the head of the ref when a sync starts; until then every page is read from the same commit
+  private getSyncHead(revalidate: boolean, priority: RequestPriority): Promise<GitHubCommitResponse> {
+    if (revalidate || !this.syncHead) {
+      const head = this.getLatestCommit(priority);
+      this.syncHead = head;
+      head.catch(() => {
+        if (this.syncHead === head) this.syncHead = null;
+      });
+    }
+    return this.syncHead;
+  }
+
+  // Lists the posts folder, applying only the delta since the last synced commit when possible
+  private async syncPostFiles(priority: RequestPriority, revalidate: boolean = false): Promise<PostFileEntry[]> {
+    const store = this.postStore;
+    if (!store) {
+      return this.getRepositoryTree(this.config.postsPath, priority);
+    }
+
+    const basePath = this.config.postsPath.split('/').filter(Boolean).join('/');
+    const head = await this.getSyncHead(revalidate, priority);
+    const snapshot = store.get();
+
+    if (snapshot?.commitSha === head.sha) {
+      return snapshot.files;
+    }
+
+    if (snapshot) {
+      const changes = await this.compareCommits(snapshot.commitSha, head.sha, priority);
+      if (changes) {
+        console.log(`Synced ${changes.length} changed files since ${snapshot.commitSha.substring(0, 7)}`);
+        return store.applyChanges(head.sha, changes, basePath).files;
+      }
+    }
+
+    const treeSha = await this.resolveTreeSha(head.commit.tree.sha, basePath, priority);
+    return store.replace(head.sha, await this.listTreeFiles(treeSha, basePath, priority)).files;
+  }
+
+  // The index lives inside the posts folder, so the tree listing already tells whether it exists
+  private async getPostIndex(files: PostFileEntry[], priority: RequestPriority): Promise<PostIndexReader | null> {
+    const basePath = this.config.postsPath.split('/').filter(Boolean).join('/');
+    const indexPath = [basePath, POSTS_INDEX_DIR].filter(Boolean).join('/');
+    const manifestFile = files.find(file => file.path === `${indexPath}/${POSTS_INDEX_MANIFEST}`);
+    if (!manifestFile) {
+      return null;
+    }
+    if (this.postIndex?.manifestSha === manifestFile.sha) {
+      this.postIndex.priority = priority;
+      return this.postIndex.reader;
+    }
+
+    try {
+      const manifest = parseIndexManifest(await this.getBlobContent(manifestFile.sha, priority));
+      if (!manifest) {
+        return null;
+      }
+
+      const reader = new PostIndexReader(manifest, basePath, async (name) => {
+        const shard = files.find(file => file.path === `${indexPath}/${name}`);
+        if (!shard) {
+          throw new GitHubAPIError(`Posts index shard ${name} not found`, 404);
         }
+        return this.getBlobContent(shard.sha, this.postIndex?.priority ?? priority);
+      });
+      this.postIndex = { manifestSha: manifestFile.sha, reader, priority };
+      return reader;
+    } catch (error) {
+      if (isAbortError(error)) {
+        throw error;
       }
+      console.warn('Failed to load posts index, reading files instead:', error);
+      return null;
+    }
+  }
 
-      return { posts, hasMore };
+  async getPosts(page: number = 1, pageSize: number = 10, priority: RequestPriority = 'user'): Promise<PostsPage> {
+    try {
+      // Loading the feed from the top starts a new sync
+      const files = await this.syncPostFiles(priority, page === 1);
+
+      // Filter for MDX files (including nested folders) and sort by date (newest first)
+      const mdxFiles = sortPostFiles(files.filter(isPostFile));
+      this.rememberPostPaths(mdxFiles);
+      const index = await this.getPostIndex(files, priority);
+
+      return await loadPostsPage(
+        mdxFiles,
+        page,
+        pageSize,
+        file => this.getFileContent(file.path, file.sha, priority),
+        { concurrency: this.config.concurrency, signal: this.abortController.signal, index }
+      );
     } catch (error) {
-      if (error instanceof GitHubAPIError) {
+      if (error instanceof GitHubAPIError || isAbortError(error)) {
         throw error;
       }
       throw new GitHubAPIError(`Error fetching posts: ${error instanceof Error ? error.message : 'Unknown error'}`);
     }
   }
 
+  private rememberPostPaths(files: PostFileEntry[]) {
+    if (!this.knownPostPaths) {
+      this.knownPostPaths = new Set();
+    }
+    files.forEach(file => this.knownPostPaths!.add(file.path));
+  }
+
+  // Watch mode: returns posts added since the last listing, or nothing when the posts folder is unchanged
+  async getNewPosts(priority: RequestPriority = 'background'): Promise<Post[]> {
+    const basePath = this.config.postsPath.split('/').filter(Boolean).join('/');
+    const params = new URLSearchParams({ path: basePath, per_page: '1' });
+    if (this.config.ref) {
+      params.set('sha', this.config.ref);
+    }
+
+    // Revalidated with its ETag, so polls between commits come back as 304
+    const endpoint = `/repos/${this.config.owner}/${this.config.repo}/commits?${params.toString()}`;
+    const [latest] = await this.makeRequest<GitHubCommitResponse[]>(endpoint, this.REVALIDATE_CACHE_DURATION, priority);
+    if (!latest || latest.sha === this.lastPostsCommitSha) {
+      return [];
+    }
+
+    const treeSha = await this.resolveTreeSha(latest.commit.tree.sha, basePath, priority);
+    const files = sortPostFiles((await this.listTreeFiles(treeSha, basePath, priority)).filter(isPostFile));
+    const knownPaths = this.knownPostPaths;
+    this.rememberPostPaths(files);
+    this.lastPostsCommitSha = latest.sha;
+
+    // Nothing was listed before, so everything counts as already seen
+    const added = knownPaths ? files.filter(file => !knownPaths.has(file.path)) : [];
+    if (added.length === 0) {
+      return [];
+    }
+
+    // Later pages should be listed from the new commit as well
+    this.syncHead = null;
+    const latestCommitEndpoint = this.getLatestCommitEndpoint();
+    this.cache.delete(`${GITHUB_API_BASE}${latestCommitEndpoint}`);
+    persistentCache.delete(`api:${latestCommitEndpoint}`);
+
+    const { posts } = await loadPostsPage(
+      added,
+      1,
+      added.length,
+      file => this.getFileContent(file.path, file.sha, priority),
+      { concurrency: this.config.concurrency, signal: this.abortController.signal }
+    );
+    return posts;
+  }
+
   async validateRepository(): Promise<boolean> {
     try {
       await this.getRepositoryContents();
@@ -209,13 +634,24 @@ export class GitHubAPI {
     }
   }
 
-  getRateLimitInfo(): { remaining: number; resetTime: number } {
+  getRateLimitInfo(): { remaining: number; limit: number; resetTime: number; authenticated: boolean } {
+    const state = this.requestQueue.getState();
     return {
-      remaining: this.rateLimitRemaining,
-      resetTime: this.rateLimitReset,
+      remaining: state.remaining,
+      limit: state.limit,
+      resetTime: state.resetTime,
+      authenticated: !!this.config.token,
     };
   }
 
+  getQueueState(): RequestQueueState {
+    return this.requestQueue.getState();
+  }
+
+  subscribeQueue(listener: (state: RequestQueueState) => void): () => void {
+    return this.requestQueue.subscribe(listener);
+  }
+
   getCacheInfo(): { size: number; entries: Array<{ url: string; age: number; hasEtag: boolean }> } {
     const entries = Array.from(this.cache.entries()).map(([url, entry]) => ({
       url,
@@ -231,6 +667,9 @@ export class GitHubAPI {
 
   clearCache(): void {
     this.cache.clear();
+    this.postStore?.clear();
+    this.syncHead = null;
+    this.postIndex = null;
     console.log('Cache cleared');
   }
 
@@ -239,8 +678,8 @@ export class GitHubAPI {
     let cleared = 0;
 
     for (const [url, entry] of this.cache.entries()) {
-      // Clear entries older than 1 hour
-      if (now - entry.timestamp > 60 * 60 * 1000) {
+      // Clear entries older than 1 hour; SHA-addressed content stays valid forever
+      if (!entry.immutable && now - entry.timestamp > 60 * 60 * 1000) {
         this.cache.delete(url);
         cleared++;
       }
@@ -252,13 +691,59 @@ export class GitHubAPI {
 
     return cleared;
   }
+}
 
-  preloadPosts(page: number = 1, pageSize: number = 10): Promise<void> {
-    // Preload next page in background
-    return this.getPosts(page, pageSize).then(() => {
-      console.log(`Preloaded page ${page}`);
-    }).catch(error => {
-      console.warn(`Failed to preload page ${page}:`, error);
-    });
+export async function checkToken(token: string): Promise<TokenCheckResult> {
+  const headers: Record<string, string> = {
+    'Accept': 'application/vnd.github.v3+json',
+    'User-Agent': 'FeedWatcher-UI/1.0',
+    'Authorization': `Bearer ${token.trim()}`,
+  };
+
+  try {
+    // /rate_limit does not count against the rate limit and echoes the token scopes
+    const response = await fetch(`${GITHUB_API_BASE}/rate_limit`, { headers });
+    const scopes = (response.headers.get('X-OAuth-Scopes') || '')
+      .split(',')
+      .map(scope => scope.trim())
+      .filter(Boolean);
+
+    if (!response.ok) {
+      return {
+        valid: false,
+        scopes,
+        limit: 0,
+        remaining: 0,
+        resetTime: 0,
+        error: response.status === 401 ? 'Invalid or expired access token' : `GitHub API error: ${response.statusText}`,
+      };
+    }
+
+    const data = await response.json();
+    const core = data.resources?.core || data.rate || {};
+
+    let login: string | undefined;
+    const userResponse = await fetch(`${GITHUB_API_BASE}/user`, { headers });
+    if (userResponse.ok) {
+      login = (await userResponse.json()).login;
+    }
+
+    return {
+      valid: true,
+      login,
+      scopes,
+      limit: core.limit || 0,
+      remaining: core.remaining || 0,
+      resetTime: core.reset || 0,
+    };
+  } catch (error) {
+    return {
+      valid: false,
+      scopes: [],
+      limit: 0,
+      remaining: 0,
+      resetTime: 0,
+      error: `Network error: ${error instanceof Error ? error.message : 'Unknown error'}`,
+    };
   }
 }
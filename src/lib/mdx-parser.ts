@@ -1,5 +1,8 @@
 import matter from 'gray-matter';
-import { Post, PostMetadata, PostAttachment } from '@/types/post';
+import { Post, PostDiagnostic } from '@/types/post';
+import { countComments, parsePostDocument, PostDocument } from './post-document';
+import { validatePostMetadata } from './post-schema';
+import { breakdownFromEngagement, parseCount, parseReactionBreakdown, sumReactions } from './reactions';
 
 // Utility function to decode HTML entities
 function decodeHtmlEntities(text: string): string {
@@ -40,146 +43,70 @@ function decodeHtmlEntities(text: string): string {
   });
 }
 
-export function parseMDXContent(content: string, fileName: string, path: string): Post | null {
-  try {
-    // Decode HTML entities in the content first
-    const decodedContent = decodeHtmlEntities(content);
-    const { data, content: markdownContent } = matter(decodedContent);
-    
-    // Validate required metadata fields
-    const requiredFields = ['title', 'author', 'date', 'feedName', 'postId'];
-    for (const field of requiredFields) {
-      if (!data[field]) {
-        console.warn(`Missing required field '${field}' in ${fileName}`);
-        return null;
-      }
-    }
-    
-    const metadata: PostMetadata = {
-      title: decodeHtmlEntities(data.title || 'Untitled Post'),
-      author: decodeHtmlEntities(data.author || 'Unknown Author'),
-      authorId: data.authorId || '0',
-      date: data.date || new Date().toISOString(),
-      feedName: decodeHtmlEntities(data.feedName || 'Unknown Feed'),
-      feedType: data.feedType || 'unknown',
-      postId: data.postId || fileName,
-      reactions: data.reactions || 0,
-    };
-    
-    // Parse attachments from content
-    const attachments = parseAttachments(markdownContent);
-    
-    // Extract content preview (first 200 characters of non-attachment content)
-    const contentPreview = extractContentPreview(markdownContent);
-    
-    const post: Post = {
-      metadata,
-      content: contentPreview,
-      attachments,
-      engagement: {
-        totalReactions: metadata.reactions,
-      },
-      fileName,
-      path,
-    };
-    
-    return post;
-  } catch (error) {
-    console.error(`Error parsing MDX content for ${fileName}:`, error);
-    return null;
-  }
-}
-
-function parseAttachments(content: string): PostAttachment[] {
-  const attachments: PostAttachment[] = [];
-  
-  // Parse attachment sections
-  const attachmentSectionRegex = /### Attachment \d+\n([\s\S]*?)(?=\n###|\n##|$)/g;
-  let match;
-  
-  while ((match = attachmentSectionRegex.exec(content)) !== null) {
-    const attachmentContent = match[1];
-    const attachment = parseAttachmentSection(attachmentContent);
-    if (attachment) {
-      attachments.push(attachment);
-    }
-  }
-  
-  return attachments;
+// Splits a raw post file into its frontmatter and structured document
+export function parsePostFile(content: string): { data: Record<string, any>; document: PostDocument } {
+  // Decode HTML entities in the content first
+  const { data, content: markdownContent } = matter(decodeHtmlEntities(content));
+  return { data, document: parsePostDocument(markdownContent, data) };
 }
 
-function parseAttachmentSection(content: string): PostAttachment | null {
+// Parses a post file and reports what was wrong with it, whether or not it could be loaded
+export function parsePost(content: string, fileName: string, path: string): { post: Post | null; diagnostics: PostDiagnostic[] } {
+  let parsed: ReturnType<typeof parsePostFile>;
   try {
-    const lines = content.split('\n').filter(line => line.trim());
-    const attachment: Partial<PostAttachment> = {};
-    
-    for (const line of lines) {
-      const trimmedLine = line.trim();
-      
-      if (trimmedLine.startsWith('- **Type:**')) {
-        const type = trimmedLine.replace('- **Type:**', '').trim();
-        if (type === 'photo' || type === 'video' || type === 'link') {
-          attachment.type = type;
-        }
-      } else if (trimmedLine.startsWith('- **Description:**')) {
-        attachment.description = trimmedLine.replace('- **Description:**', '').trim();
-      } else if (trimmedLine.startsWith('- **URL:**')) {
-        attachment.url = trimmedLine.replace('- **URL:**', '').trim();
-      } else if (trimmedLine.startsWith('- **Image:**')) {
-        attachment.image = trimmedLine.replace('- **Image:**', '').trim();
-      }
-    }
-    
-    if (attachment.type) {
-      return attachment as PostAttachment;
-    }
-    
-    return null;
+    parsed = parsePostFile(content);
   } catch (error) {
-    console.error('Error parsing attachment section:', error);
-    return null;
+    // gray-matter throws on malformed YAML
+    const message = error instanceof Error ? error.message : 'Unknown error';
+    return { post: null, diagnostics: [{ fileName, path, severity: 'error', message: `Invalid frontmatter: ${message}` }] };
   }
-}
 
-function extractContentPreview(content: string): string {
-  try {
-    // Decode HTML entities first
-    const decodedContent = decodeHtmlEntities(content);
+  const { data, document } = parsed;
+  const { metadata, diagnostics } = validatePostMetadata(data, fileName, path, extractDateFromFileName(fileName));
+  if (!metadata) {
+    return { post: null, diagnostics };
+  }
 
-    // Remove frontmatter, attachment sections, and metadata
-    let cleanContent = decodedContent
-      .replace(/^---[\s\S]*?---/, '') // Remove frontmatter
-      .replace(/### Attachment \d+[\s\S]*?(?=\n###|\n##|$)/g, '') // Remove attachments
-      .replace(/## Attachments[\s\S]*?(?=\n##|$)/g, '') // Remove attachment sections
-      .replace(/## Engagement[\s\S]*?(?=\n##|$)/g, '') // Remove engagement sections
-      .replace(/\*\*Date:\*\*.*?\n/g, '') // Remove date lines
-      .replace(/\*\*Feed:\*\*.*?\n/g, '') // Remove feed lines
-      .replace(/\*\*Post ID:\*\*.*?\n/g, '') // Remove post ID lines
-      .replace(/\*\*Author:\*\*.*?\n/g, '') // Remove author lines
-      .replace(/\*\*Total Reactions:\*\*.*?\n/g, '') // Remove reaction lines
-      .replace(/#+ [^\n]*\n/g, '') // Remove headers
-      .replace(/\*Backed up by.*?\*/g, '') // Remove backup footer
-      .replace(/#[a-zA-Z0-9_]+/g, '') // Remove hashtags
-      .trim();
+  metadata.title = decodeHtmlEntities(metadata.title);
+  metadata.author = decodeHtmlEntities(metadata.author);
+  metadata.feedName = decodeHtmlEntities(metadata.feedName);
+  metadata.tags = document.tags;
 
-    // Extract first meaningful paragraph
-    const paragraphs = cleanContent.split('\n\n').filter(p => p.trim().length > 0);
-    const firstParagraph = paragraphs[0] || cleanContent;
+  // The frontmatter may hold a breakdown instead of a total; older exports only have them in the body
+  const breakdown = parseReactionBreakdown(data.reactions) || breakdownFromEngagement(document.engagement);
+  if (breakdown) {
+    metadata.reactionBreakdown = breakdown;
+  }
+  if (!metadata.reactions) {
+    metadata.reactions = parseCount(document.engagement['total reactions']) || (breakdown ? sumReactions(breakdown) : 0);
+  }
 
-    // Limit to 200 characters, but be careful with Unicode characters
-    if (firstParagraph.length > 200) {
-      // Use Array.from to properly handle Unicode characters
-      const chars = Array.from(firstParagraph);
-      if (chars.length > 200) {
-        return chars.slice(0, 200).join('') + '...';
-      }
-    }
+  const post: Post = {
+    metadata,
+    content: document.preview,
+    codeSnippet: document.codeSnippet,
+    attachments: document.attachments,
+    engagement: {
+      totalReactions: metadata.reactions,
+      reactions: metadata.reactionBreakdown,
+      // Exports that leave the comments out may still record how many there were
+      totalComments: countComments(document.comments)
+        || parseCount(document.engagement['total comments']) || 0,
+    },
+    comments: document.comments,
+    fileName,
+    path,
+  };
 
-    return firstParagraph || 'No content preview available.';
-  } catch (error) {
-    console.error('Error extracting content preview:', error);
-    return 'Error extracting content preview.';
-  }
+  return { post, diagnostics };
+}
+
+export function parseMDXContent(content: string, fileName: string, path: string): Post | null {
+  const { post, diagnostics } = parsePost(content, fileName, path);
+  diagnostics.forEach(diagnostic => {
+    console.warn(`${diagnostic.field ? `'${diagnostic.field}' ` : ''}${diagnostic.message} in ${fileName}`);
+  });
+  return post;
 }
 
 export function extractDateFromFileName(fileName: string): Date | null {
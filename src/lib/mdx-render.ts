@@ -0,0 +1,89 @@
+import { unified } from 'unified';
+import remarkParse from 'remark-parse';
+import type { Nodes } from 'mdast';
+import remarkGfm from 'remark-gfm';
+import rehypeHighlight from 'rehype-highlight';
+import type { MDXContent } from 'mdx/types';
+import * as runtime from 'react/jsx-runtime';
+import { rehypeCodeLines } from './code-lines';
+import { rehypeSearchHighlight } from './search';
+
+// Components a post may use; anything else, including lowercase HTML tags, is rejected
+export const MDX_COMPONENT_NAMES = ['Callout', 'Gallery', 'Quote', 'Attachment'] as const;
+
+export class MdxPolicyError extends Error {
+  constructor(message: string, public line?: number) {
+    super(line ? `${message} (line ${line})` : message);
+    this.name = 'MdxPolicyError';
+  }
+}
+
+// The parts of the MDX syntax tree the allowlist looks at
+interface MdxNode {
+  type: string;
+  name?: string | null;
+  attributes?: Array<{ type: string; name?: string; value?: unknown }>;
+  children?: MdxNode[];
+  position?: { start: { line: number } };
+}
+
+function checkNode(node: MdxNode, allowed: Set<string>) {
+  const line = node.position?.start.line;
+
+  if (node.type === 'mdxjsEsm') {
+    throw new MdxPolicyError('Imports and exports are not allowed', line);
+  }
+  if (node.type === 'mdxFlowExpression' || node.type === 'mdxTextExpression') {
+    throw new MdxPolicyError('Expressions in braces are not allowed', line);
+  }
+  if (node.type === 'mdxJsxFlowElement' || node.type === 'mdxJsxTextElement') {
+    if (!node.name || !allowed.has(node.name)) {
+      throw new MdxPolicyError(`<${node.name || ''}> is not an allowed component`, line);
+    }
+    for (const attribute of node.attributes || []) {
+      // Only literal values like title="Note"; `{...props}` and `x={1 + 1}` run code
+      if (attribute.type !== 'mdxJsxAttribute' || (attribute.value !== null && typeof attribute.value !== 'string')) {
+        throw new MdxPolicyError(`Attribute expressions are not allowed on <${node.name}>`, line);
+      }
+    }
+  }
+
+  node.children?.forEach(child => checkNode(child, allowed));
+}
+
+// Remark plugin that fails compilation on anything outside the allowlist, before any code is generated
+function remarkMdxAllowlist(names: readonly string[]) {
+  const allowed = new Set(names);
+  return (tree: MdxNode) => checkNode(tree, allowed);
+}
+
+const COMPONENT_TAG = new RegExp(`<(${MDX_COMPONENT_NAMES.join('|')})[\\s/>]`);
+const markdownParser = unified().use(remarkParse);
+
+function containsComponent(node: Nodes): boolean {
+  // Code shows tags like List<String> as text, so it never counts
+  if (node.type === 'code' || node.type === 'inlineCode') {
+    return false;
+  }
+  if (node.type === 'html') {
+    return COMPONENT_TAG.test(node.value);
+  }
+  return 'children' in node && (node.children as Nodes[]).some(containsComponent);
+}
+
+// Only posts using an allowlisted component go through the MDX compiler; everything else is plain markdown
+export function hasMdxComponents(markdown: string): boolean {
+  return containsComponent(markdownParser.parse(markdown));
+}
+
+// `highlightQuery` marks search matches in the rendered text
+export async function compilePostMdx(source: string, highlightQuery: string = ''): Promise<MDXContent> {
+  // The compiler is only loaded for posts that use components
+  const { evaluate } = await import('@mdx-js/mdx');
+  const { default: Content } = await evaluate(source, {
+    ...runtime,
+    remarkPlugins: [remarkGfm, [remarkMdxAllowlist, MDX_COMPONENT_NAMES]],
+    rehypePlugins: [[rehypeHighlight, { detect: true }], rehypeCodeLines, [rehypeSearchHighlight, { query: highlightQuery }]],
+  });
+  return Content;
+}
@@ -0,0 +1,365 @@
+import { unified } from 'unified';
+import remarkParse from 'remark-parse';
+import { toString } from 'mdast-util-to-string';
+import type { Root, RootContent, Nodes, List, PhrasingContent } from 'mdast';
+import { CodeSnippet, PostAttachment, PostComment } from '@/types/post';
+import { HASHTAG_PATTERN, mergeTags, parseFrontmatterTags } from './tags';
+import { parseCount } from './reactions';
+
+// A post export split into the parts the UI shows separately
+export interface PostDocument {
+  // Markdown of the post itself, without attachments, engagement, metadata lines or the backup footer
+  body: string;
+  // Plain text of the body, for search
+  text: string;
+  preview: string;
+  codeSnippet?: CodeSnippet;
+  attachments: PostAttachment[];
+  // Hashtags from the body and the frontmatter `tags`, without the `#`
+  tags: string[];
+  comments: PostComment[];
+  engagement: Record<string, string>;
+  footer?: string;
+}
+
+type Section = 'body' | 'attachments' | 'engagement' | 'comments';
+type Range = [number, number];
+
+const PREVIEW_LENGTH = 200;
+const SNIPPET_LINES = 6;
+const ATTACHMENT_TYPES: PostAttachment['type'][] = ['photo', 'video', 'link'];
+// Labels of the `**Label:** value` lines exporters repeat from the frontmatter
+const METADATA_LABELS = new Set(['author', 'date', 'feed', 'post id', 'total reactions']);
+
+const markdownParser = unified().use(remarkParse);
+
+function startOf(node: Nodes): number {
+  return node.position?.start.offset ?? 0;
+}
+
+function endOf(node: Nodes): number {
+  return node.position?.end.offset ?? 0;
+}
+
+function headingSection(text: string): Section {
+  if (/^attachments?$/i.test(text)) return 'attachments';
+  if (/^engagement$/i.test(text)) return 'engagement';
+  if (/^comments?$/i.test(text)) return 'comments';
+  return 'body';
+}
+
+// Reads `**Label:** value` from a list item or paragraph
+function readField(children: PhrasingContent[]): { label: string; value: string } | null {
+  const [first, ...rest] = children;
+  if (!first || first.type !== 'strong') {
+    return null;
+  }
+
+  const label = toString(first).trim().replace(/:$/, '');
+  const linked = rest.find(child => child.type === 'link' || child.type === 'image');
+  const value = linked && (linked.type === 'link' || linked.type === 'image')
+    ? linked.url
+    : rest.map(child => toString(child)).join('').replace(/^:/, '').trim();
+
+  return { label: label.toLowerCase(), value };
+}
+
+function readListFields(list: List): Array<{ label: string; value: string }> {
+  return list.children
+    .map(item => item.children[0])
+    .filter(child => child && child.type === 'paragraph')
+    .map(paragraph => readField(paragraph.type === 'paragraph' ? paragraph.children : []))
+    .filter((field): field is { label: string; value: string } => field !== null);
+}
+
+function toAttachment(fields: Array<{ label: string; value: string }>): PostAttachment | null {
+  const attachment: Partial<PostAttachment> = {};
+
+  for (const { label, value } of fields) {
+    if (label === 'type' && ATTACHMENT_TYPES.includes(value as PostAttachment['type'])) {
+      attachment.type = value as PostAttachment['type'];
+    } else if (label === 'description') {
+      attachment.description = value;
+    } else if (label === 'url') {
+      attachment.url = value;
+    } else if (label === 'image') {
+      attachment.image = value;
+    }
+  }
+
+  return attachment.type ? attachment as PostAttachment : null;
+}
+
+export function parseFrontmatterAttachments(value: unknown): PostAttachment[] {
+  if (!Array.isArray(value)) {
+    return [];
+  }
+
+  return value
+    .filter((item): item is Record<string, unknown> => typeof item === 'object' && item !== null)
+    .map(item => toAttachment(
+      Object.entries(item)
+        .filter(([, fieldValue]) => typeof fieldValue === 'string')
+        .map(([label, fieldValue]) => ({ label: label.toLowerCase(), value: (fieldValue as string).trim() }))
+    ))
+    .filter((attachment): attachment is PostAttachment => attachment !== null);
+}
+
+const COMMENT_FIELDS = new Set(['author', 'date', 'time', 'reactions']);
+
+// The list of `**Author:**`, `**Date:**` and `**Reactions:**` right under a comment heading
+function readCommentFields(list: List): Array<{ label: string; value: string }> | null {
+  const fields = readListFields(list);
+  return fields.length === list.children.length && fields.every(field => COMMENT_FIELDS.has(field.label)) ? fields : null;
+}
+
+function applyCommentFields(comment: PostComment, fields: Array<{ label: string; value: string }>) {
+  for (const { label, value } of fields) {
+    if (label === 'author') {
+      comment.author = value;
+    } else if (label === 'date' || label === 'time') {
+      const date = new Date(value);
+      comment.date = isNaN(date.getTime()) ? value : date.toISOString();
+    } else if (label === 'reactions') {
+      comment.reactions = parseCount(value) ?? 0;
+    }
+  }
+}
+
+export function countComments(comments: PostComment[]): number {
+  return comments.reduce((total, comment) => total + 1 + countComments(comment.replies), 0);
+}
+
+function isFooter(node: RootContent): boolean {
+  return node.type === 'paragraph'
+    && node.children.length === 1
+    && node.children[0].type === 'emphasis'
+    && /^backed up by/i.test(toString(node).trim());
+}
+
+// Whole `**Author:** ...` style lines inside a paragraph, including their line break
+function metadataLineRanges(source: string, children: PhrasingContent[]): Range[] {
+  return children
+    .filter(child => child.type === 'strong' && child.position?.start.column === 1
+      && METADATA_LABELS.has(toString(child).trim().replace(/:$/, '').toLowerCase()))
+    .map(child => {
+      const start = startOf(child);
+      const lineEnd = source.indexOf('\n', start);
+      return [start, lineEnd === -1 ? source.length : lineEnd + 1] as Range;
+    });
+}
+
+// Hashtags are collected and cut from the text, since they're shown as tags; links and code keep theirs
+function collectHashtags(source: string, node: Nodes, tags: string[]): Range[] {
+  if (node.type === 'text') {
+    const raw = source.slice(startOf(node), endOf(node));
+    return Array.from(raw.matchAll(HASHTAG_PATTERN)).map(match => {
+      const start = startOf(node) + match.index! + match[1].length;
+      tags.push(match[2]);
+      return [start, start + match[2].length + 1] as Range;
+    });
+  }
+  if (node.type === 'link' || node.type === 'linkReference' || !('children' in node)) {
+    return [];
+  }
+  return (node.children as Nodes[]).flatMap(child => collectHashtags(source, child, tags));
+}
+
+function removeRanges(source: string, ranges: Range[], start: number = 0, end: number = source.length): string {
+  const sorted = ranges
+    .filter(([rangeStart, rangeEnd]) => rangeEnd > start && rangeStart < end)
+    .sort((a, b) => a[0] - b[0]);
+
+  let result = '';
+  let cursor = start;
+  for (const [rangeStart, rangeEnd] of sorted) {
+    if (rangeStart > cursor) {
+      result += source.slice(cursor, rangeStart);
+    }
+    cursor = Math.max(cursor, rangeEnd);
+  }
+  return result + source.slice(Math.min(cursor, end), end);
+}
+
+// mdast-util-to-string runs blocks together, so blocks are joined by line breaks here
+function blockText(node: Nodes): string {
+  if (node.type === 'paragraph' || node.type === 'heading' || node.type === 'tableCell' || !('children' in node)) {
+    return toString(node);
+  }
+  return node.children.map(child => blockText(child)).filter(Boolean).join('\n');
+}
+
+function truncatePreview(text: string): string {
+  // Array.from keeps multi-byte characters intact
+  const chars = Array.from(text);
+  return chars.length > PREVIEW_LENGTH ? chars.slice(0, PREVIEW_LENGTH).join('') + '...' : text;
+}
+
+export function parsePostDocument(markdown: string, frontmatter: Record<string, unknown> = {}): PostDocument {
+  const tree = markdownParser.parse(markdown) as Root;
+  const removed: Range[] = [];
+  const bodyNodes: RootContent[] = [];
+  const attachments: PostAttachment[] = [];
+  const engagement: Record<string, string> = {};
+  const hashtags: string[] = [];
+  let footer: string | undefined;
+  let section: Section = 'body';
+  let attachmentFields: Array<{ label: string; value: string }> | null = null;
+  const comments: PostComment[] = [];
+  // Open comments by nesting level; `### Comment` is level 0, `#### Reply` level 1 and so on
+  const thread: Array<{ comment: PostComment; parts: string[]; hasFields: boolean }> = [];
+  const commentParts: Array<{ comment: PostComment; parts: string[] }> = [];
+
+  const openComment = (depth: number, title: string) => {
+    thread.length = Math.min(thread.length, depth - 3);
+    const parent = thread[thread.length - 1];
+    const siblings = parent ? parent.comment.replies : comments;
+    const comment: PostComment = {
+      id: parent ? `${parent.comment.id}.${siblings.length + 1}` : `${siblings.length + 1}`,
+      // Some exports put the author in the heading instead of a numbered title
+      author: /^(comment|reply)\b/i.test(title) ? '' : title,
+      content: '',
+      replies: [],
+    };
+    siblings.push(comment);
+    const open = { comment, parts: [], hasFields: false };
+    thread.push(open);
+    commentParts.push(open);
+  };
+
+  const closeAttachment = () => {
+    const attachment = attachmentFields && toAttachment(attachmentFields);
+    if (attachment) {
+      attachments.push(attachment);
+    }
+    attachmentFields = null;
+  };
+
+  const remove = (node: RootContent) => removed.push([startOf(node), endOf(node)]);
+
+  for (const node of tree.children) {
+    if (isFooter(node)) {
+      footer = toString(node).trim();
+      remove(node);
+      continue;
+    }
+
+    if (node.type === 'heading') {
+      const text = toString(node).trim();
+      if (node.depth === 3 && /^attachment\s*\d*$/i.test(text)) {
+        closeAttachment();
+        section = 'attachments';
+        attachmentFields = [];
+        remove(node);
+        continue;
+      }
+      if (node.depth <= 2) {
+        closeAttachment();
+        thread.length = 0;
+        section = headingSection(text);
+        if (section !== 'body') {
+          remove(node);
+          continue;
+        }
+      }
+    }
+
+    if (section === 'comments') {
+      const current = thread[thread.length - 1];
+      const fields = node.type === 'list' && current && !current.hasFields && current.parts.length === 0
+        ? readCommentFields(node)
+        : null;
+      if (node.type === 'heading' && node.depth >= 3) {
+        openComment(node.depth, toString(node).trim());
+      } else if (fields) {
+        applyCommentFields(current.comment, fields);
+        current.hasFields = true;
+      } else if (current && node.type !== 'thematicBreak') {
+        current.parts.push(markdown.slice(startOf(node), endOf(node)));
+      }
+      remove(node);
+      continue;
+    }
+
+    if (section === 'attachments') {
+      if (node.type === 'list') {
+        attachmentFields = [...(attachmentFields || []), ...readListFields(node)];
+      }
+      remove(node);
+      continue;
+    }
+
+    if (section === 'engagement') {
+      const fields = node.type === 'list' ? readListFields(node)
+        : node.type === 'paragraph' ? [readField(node.children)].filter(field => field !== null) : [];
+      fields.forEach(field => {
+        engagement[field!.label] = field!.value;
+      });
+      remove(node);
+      continue;
+    }
+
+    if (node.type === 'paragraph') {
+      removed.push(...metadataLineRanges(markdown, node.children));
+    }
+    removed.push(...collectHashtags(markdown, node, hashtags));
+    bodyNodes.push(node);
+  }
+  closeAttachment();
+  commentParts.forEach(({ comment, parts }) => {
+    comment.content = parts.join('\n\n').trim();
+  });
+
+  // Separators left in front of the removed sections
+  while (bodyNodes.length > 0 && bodyNodes[bodyNodes.length - 1].type === 'thematicBreak') {
+    remove(bodyNodes.pop()!);
+  }
+
+  const body = removeRanges(markdown, removed)
+    .replace(/[ \t]+$/gm, '')
+    .replace(/\n{3,}/g, '\n\n')
+    .trim();
+
+  // The first paragraph with text left after cleaning becomes the card preview
+  let preview = '';
+  for (const node of bodyNodes) {
+    if (node.type !== 'paragraph') continue;
+    const cleaned = removeRanges(markdown, removed, startOf(node), endOf(node));
+    preview = toString(markdownParser.parse(cleaned)).replace(/[ \t]{2,}/g, ' ').trim();
+    if (preview) break;
+  }
+
+  const firstCode = bodyNodes.find(node => node.type === 'code');
+  let codeSnippet: CodeSnippet | undefined;
+  if (firstCode && firstCode.type === 'code' && firstCode.value.trim()) {
+    const lines = firstCode.value.split('\n');
+    codeSnippet = {
+      language: firstCode.lang || undefined,
+      code: lines.slice(0, SNIPPET_LINES).join('\n'),
+      truncated: lines.length > SNIPPET_LINES,
+    };
+  }
+
+  // Attachments declared in the frontmatter come first; the body repeats some of them
+  const seen = new Set<string>();
+  const allAttachments = [...parseFrontmatterAttachments(frontmatter.attachments), ...attachments].filter(attachment => {
+    const key = attachment.url || attachment.image;
+    if (!key) return true;
+    if (seen.has(key)) return false;
+    seen.add(key);
+    return true;
+  });
+
+  return {
+    body,
+    text: blockText(markdownParser.parse(body)),
+    // A post that is only code has its snippet as the preview
+    preview: preview ? truncatePreview(preview) : codeSnippet ? '' : 'No content preview available.',
+    codeSnippet,
+    attachments: allAttachments,
+    tags: mergeTags([], [...parseFrontmatterTags(frontmatter.tags), ...hashtags]),
+    comments,
+    engagement,
+    footer,
+  };
+}
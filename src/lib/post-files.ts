@@ -0,0 +1,93 @@
+import { Post, PostDiagnostic, PostsPage } from '@/types/post';
+import { parsePost, extractDateFromFileName } from './mdx-parser';
+import { runWithConcurrency } from './fetch-scheduler';
+import { PostIndexReader, POSTS_INDEX_DIR } from './posts-index';
+
+interface PostFileLike {
+  name: string;
+  path: string;
+  sha?: string;
+  modifiedAt?: number;
+}
+
+export function isPostFile(file: PostFileLike): boolean {
+  return file.name.endsWith('.mdx') && !file.path.split('/').includes(POSTS_INDEX_DIR);
+}
+
+// Orders by the date in the file name (newest first), falling back to the path
+export function comparePostFiles(a: { name: string; path: string }, b: { name: string; path: string }): number {
+  const dateA = extractDateFromFileName(a.name);
+  const dateB = extractDateFromFileName(b.name);
+  if (dateA && dateB) {
+    return dateB.getTime() - dateA.getTime();
+  }
+  return b.path.localeCompare(a.path);
+}
+
+// Orders loaded posts by their post date (newest first); the file name settles ties and unreadable dates
+export function comparePostsByDate(a: Post, b: Post): number {
+  const dateA = new Date(a.metadata.date).getTime();
+  const dateB = new Date(b.metadata.date).getTime();
+  if (!isNaN(dateA) && !isNaN(dateB) && dateA !== dateB) {
+    return dateB - dateA;
+  }
+  return comparePostFiles({ name: a.fileName, path: a.path }, { name: b.fileName, path: b.path });
+}
+
+export function sortPostFiles<T extends PostFileLike>(files: T[]): T[] {
+  return [...files].sort(comparePostFiles);
+}
+
+export async function loadPostsPage<T extends PostFileLike>(
+  sortedFiles: T[],
+  page: number,
+  pageSize: number,
+  readFile: (file: T) => Promise<string>,
+  options: { concurrency?: number; signal?: AbortSignal; index?: PostIndexReader | null } = {}
+): Promise<PostsPage> {
+  // Calculate pagination
+  const startIndex = (page - 1) * pageSize;
+  const endIndex = startIndex + pageSize;
+  const paginatedFiles = sortedFiles.slice(startIndex, endIndex);
+  const hasMore = endIndex < sortedFiles.length;
+
+  // Previews from a prebuilt index save fetching and parsing whole files
+  const indexed = options.index ? await options.index.lookup(paginatedFiles) : new Map<string, Post>();
+
+  // Fetch and parse posts a few at a time, keeping the sorted order
+  const results = await runWithConcurrency(
+    paginatedFiles,
+    async (file) => {
+      const indexedPost = indexed.get(file.path);
+      if (indexedPost) {
+        return { post: indexedPost, diagnostics: [] };
+      }
+
+      return parsePost(await readFile(file), file.name, file.path);
+    },
+    { concurrency: options.concurrency, signal: options.signal }
+  );
+
+  const posts: Post[] = [];
+  const diagnostics: PostDiagnostic[] = [];
+
+  results.forEach((result, index) => {
+    const file = paginatedFiles[index];
+    if (result.status === 'fulfilled') {
+      if (result.value.post) {
+        posts.push(result.value.post);
+      }
+      diagnostics.push(...result.value.diagnostics);
+    } else {
+      console.error(`Error processing file ${file.name}:`, result.reason);
+      diagnostics.push({
+        fileName: file.name,
+        path: file.path,
+        severity: 'error',
+        message: result.reason instanceof Error ? result.reason.message : 'Unknown error',
+      });
+    }
+  });
+
+  return { posts, hasMore, diagnostics };
+}
@@ -0,0 +1,79 @@
+import matter from 'gray-matter';
+import { PostRevision } from '@/types/post';
+import { PostLoader } from './post-loader';
+
+export interface PostVersion {
+  data: Record<string, unknown>;
+  body: string;
+}
+
+export interface FieldChange {
+  field: string;
+  before?: string;
+  after?: string;
+}
+
+// A deleted post, rebuilt from the version before the commit that removed it
+export interface PostTombstone {
+  deletedIn: PostRevision;
+  lastKnown: PostRevision;
+  content: string;
+}
+
+export function parsePostVersion(content: string | null): PostVersion {
+  if (content === null) {
+    return { data: {}, body: '' };
+  }
+
+  try {
+    const { data, content: body } = matter(content);
+    return { data, body };
+  } catch (error) {
+    console.warn('Failed to parse frontmatter, comparing the raw file:', error);
+    return { data: {}, body: content };
+  }
+}
+
+function formatFieldValue(value: unknown): string | undefined {
+  if (value === undefined || value === null) {
+    return undefined;
+  }
+  if (value instanceof Date) {
+    return value.toISOString();
+  }
+  return typeof value === 'object' ? JSON.stringify(value) : String(value);
+}
+
+export function diffFrontmatter(before: Record<string, unknown>, after: Record<string, unknown>): FieldChange[] {
+  const fields = Array.from(new Set([...Object.keys(before), ...Object.keys(after)]));
+
+  return fields
+    .map(field => ({
+      field,
+      before: formatFieldValue(before[field]),
+      after: formatFieldValue(after[field]),
+    }))
+    .filter(change => change.before !== change.after);
+}
+
+// Walks back from the newest commit to the last one where the file still existed
+export async function findTombstone(postLoader: PostLoader, path: string): Promise<PostTombstone | null> {
+  const revisions = await postLoader.getFileHistory(path);
+  if (revisions.length === 0) {
+    return null;
+  }
+
+  const [deletedIn, ...older] = revisions;
+  if (await postLoader.getFileContentAt(path, deletedIn.sha) !== null) {
+    return null;
+  }
+
+  for (const revision of older) {
+    const content = await postLoader.getFileContentAt(path, revision.sha);
+    if (content !== null) {
+      return { deletedIn, lastKnown: revision, content };
+    }
+  }
+
+  return null;
+}
@@ -1,210 +1,106 @@
-import { Post, FeedConfig } from '@/types/post';
-import { parseMDXContent, extractDateFromFileName } from './mdx-parser';
-import { GitHubAPI } from './github-api';
-// Dynamic imports for Node.js modules to avoid bundling in client-side code
-let fs: any = null;
-let path: any = null;
-
-// Only import these modules on the server side
-if (typeof window === 'undefined') {
-  try {
-    fs = require('fs');
-    path = require('path');
-  } catch (error) {
-    console.warn('Failed to import Node.js modules:', error);
-  }
-}
+import { FeedConfig, Post, PostRevision, PostsPage } from '@/types/post';
+import { PostChange, PostSource, PostSourceCapabilities, PostSourceStats } from '@/types/source';
+import { hasBackgroundBudget, RequestPriority } from './request-queue';
+import { createPostSource } from './sources';
 
 export class PostLoader {
   private config: FeedConfig;
-  private githubAPI: GitHubAPI;
-  private isLocalMode: boolean = false;
-  private localPostsPath: string = '';
+  private source: PostSource;
 
   constructor(config: FeedConfig) {
     this.config = config;
-    this.githubAPI = new GitHubAPI(config);
-    this.checkLocalMode();
+    this.source = createPostSource(config);
+    console.log(`Loading posts from ${this.source.label}`);
   }
 
   updateConfig(config: FeedConfig) {
+    this.source.cancel();
     this.config = config;
-    this.githubAPI.updateConfig(config);
-    this.checkLocalMode();
-  }
-
-  private checkLocalMode() {
-    // Check if we're running in a Node.js environment (server-side)
-    if (typeof window === 'undefined' && fs && path) {
-      try {
-        // Check if posts folder exists at repository root
-        const postsPath = path.join(process.cwd(), 'posts');
-        this.isLocalMode = fs.existsSync(postsPath) && fs.statSync(postsPath).isDirectory();
-        this.localPostsPath = postsPath;
-
-        if (this.isLocalMode) {
-          console.log('Local mode detected: Loading posts from local filesystem');
-        } else {
-          console.log('Remote mode: Loading posts from GitHub API');
-        }
-      } catch (error) {
-        console.log('Error checking local mode, falling back to GitHub API:', error);
-        this.isLocalMode = false;
-      }
-    } else {
-      // Client-side always uses GitHub API
-      this.isLocalMode = false;
-    }
+    this.source = createPostSource(config);
   }
 
-  async getPosts(page: number = 1, pageSize: number = 10): Promise<{ posts: Post[]; hasMore: boolean }> {
-    if (this.isLocalMode) {
-      return this.getLocalPosts(page, pageSize);
-    } else {
-      return this.githubAPI.getPosts(page, pageSize);
-    }
+  cancel() {
+    this.source.cancel();
   }
 
-  async getFileContent(filePath: string): Promise<string> {
-    if (this.isLocalMode) {
-      return this.getLocalFileContent(filePath);
-    } else {
-      return this.githubAPI.getFileContent(filePath);
-    }
+  async getPosts(page: number = 1, pageSize: number = 10, priority: RequestPriority = 'user'): Promise<PostsPage> {
+    return this.source.getPosts(page, pageSize, priority);
   }
 
-  private async getLocalPosts(page: number = 1, pageSize: number = 10): Promise<{ posts: Post[]; hasMore: boolean }> {
-    if (!fs || !path) {
-      throw new Error('File system modules not available');
-    }
-
-    try {
-      // Read all MDX files from the posts directory
-      const files = fs.readdirSync(this.localPostsPath)
-        .filter((file: string) => file.endsWith('.mdx'))
-        .map((file: string) => ({
-          name: file,
-          path: path.join('posts', file),
-          fullPath: path.join(this.localPostsPath, file)
-        }))
-        .sort((a: { name: string; path: string; fullPath: string }, b: { name: string; path: string; fullPath: string }) => {
-          // Sort by date (newest first)
-          const dateA = extractDateFromFileName(a.name);
-          const dateB = extractDateFromFileName(b.name);
-          if (dateA && dateB) {
-            return dateB.getTime() - dateA.getTime();
-          }
-          return b.name.localeCompare(a.name);
-        });
-
-      // Calculate pagination
-      const startIndex = (page - 1) * pageSize;
-      const endIndex = startIndex + pageSize;
-      const paginatedFiles = files.slice(startIndex, endIndex);
-      const hasMore = endIndex < files.length;
-
-      // Read and parse posts
-      const posts: Post[] = [];
-      
-      for (const file of paginatedFiles) {
-        try {
-          const content = fs.readFileSync(file.fullPath, 'utf-8');
-          const post = parseMDXContent(content, file.name, file.path);
-          if (post) {
-            posts.push(post);
-          }
-        } catch (error) {
-          console.error(`Error processing local file ${file.name}:`, error);
-          // Continue with other files even if one fails
-        }
-      }
-
-      return { posts, hasMore };
-    } catch (error) {
-      console.error('Error reading local posts:', error);
-      throw new Error(`Error reading local posts: ${error instanceof Error ? error.message : 'Unknown error'}`);
-    }
+  async getFileContent(filePath: string): Promise<string> {
+    return this.source.getFileContent(filePath);
   }
 
-  private async getLocalFileContent(filePath: string): Promise<string> {
-    if (!fs || !path) {
-      throw new Error('File system modules not available');
-    }
+  async getFileHistory(filePath: string): Promise<PostRevision[]> {
+    return this.source.getFileHistory ? this.source.getFileHistory(filePath) : [];
+  }
 
-    try {
-      // Handle both absolute and relative paths
-      let fullPath: string;
-      if (path.isAbsolute(filePath)) {
-        fullPath = filePath;
-      } else {
-        // Remove 'posts/' prefix if present since we're already in the posts directory
-        const relativePath = filePath.startsWith('posts/') ? filePath.substring(6) : filePath;
-        fullPath = path.join(this.localPostsPath, relativePath);
-      }
-
-      return fs.readFileSync(fullPath, 'utf-8');
-    } catch (error) {
-      console.error('Error reading local file:', error);
-      throw new Error(`Error reading local file: ${error instanceof Error ? error.message : 'Unknown error'}`);
+  async getFileContentAt(filePath: string, revision: string): Promise<string | null> {
+    if (!this.source.getFileContentAt) {
+      throw new Error(`${this.source.label} does not keep revision history`);
     }
+    return this.source.getFileContentAt(filePath, revision);
   }
 
   async validateRepository(): Promise<boolean> {
-    if (this.isLocalMode) {
-      return this.validateLocalRepository();
-    } else {
-      return this.githubAPI.validateRepository();
-    }
+    return this.source.validate();
   }
 
-  private async validateLocalRepository(): Promise<boolean> {
-    if (!fs) {
-      return false;
-    }
+  getCapabilities(): PostSourceCapabilities {
+    return this.source.capabilities;
+  }
 
-    try {
-      // Check if posts directory exists and has MDX files
-      if (!fs.existsSync(this.localPostsPath)) {
-        return false;
-      }
+  getStats(): PostSourceStats {
+    return this.source.getStats();
+  }
 
-      const files = fs.readdirSync(this.localPostsPath);
-      const mdxFiles = files.filter((file: string) => file.endsWith('.mdx'));
+  // Sources without a rate limit can always spare the requests
+  hasBackgroundBudget(requests: number): boolean {
+    const { queue } = this.getStats();
+    return !queue || hasBackgroundBudget(queue, requests);
+  }
 
-      return mdxFiles.length > 0;
-    } catch (error) {
-      console.error('Error validating local repository:', error);
-      return false;
-    }
+  subscribeStats(listener: (stats: PostSourceStats) => void): () => void {
+    return this.source.subscribeStats ? this.source.subscribeStats(listener) : () => {};
   }
 
-  // Delegate other methods to GitHub API
-  getRateLimitInfo() {
-    return this.githubAPI.getRateLimitInfo();
+  async checkForNewPosts(): Promise<Post[]> {
+    if (!this.source.capabilities.watch || !this.source.checkForNewPosts) {
+      return [];
+    }
+    return this.source.checkForNewPosts();
   }
 
-  getCacheInfo() {
-    return this.githubAPI.getCacheInfo();
+  subscribeChanges(listener: (change: PostChange) => void): () => void {
+    return this.source.subscribeChanges ? this.source.subscribeChanges(listener) : () => {};
   }
 
   clearCache() {
-    return this.githubAPI.clearCache();
+    return this.source.clearCache();
   }
 
   clearExpiredCache() {
-    return this.githubAPI.clearExpiredCache();
+    return this.source.clearExpiredCache();
   }
 
-  preloadPosts(page: number = 1, pageSize: number = 10) {
-    if (this.isLocalMode) {
-      // For local mode, preloading is not necessary as file access is fast
+  preloadPosts(page: number = 1, pageSize: number = 10): Promise<void> {
+    if (!this.source.capabilities.preload) {
+      // Sources without network costs (e.g. the filesystem) don't benefit from preloading
       return Promise.resolve();
-    } else {
-      return this.githubAPI.preloadPosts(page, pageSize);
     }
+
+    return this.source.getPosts(page, pageSize, 'background').then(() => {
+      console.log(`Preloaded page ${page}`);
+    }).catch(error => {
+      console.warn(`Failed to preload page ${page}:`, error);
+    });
   }
 
   getMode(): 'local' | 'remote' {
-    return this.isLocalMode ? 'local' : 'remote';
+    return this.source.capabilities.mode;
+  }
+
+  getSourceId(): string {
+    return this.source.id;
   }
 }
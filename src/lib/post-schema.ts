@@ -0,0 +1,120 @@
+import { PostDiagnostic, PostMetadata } from '@/types/post';
+import { parseCount, parseReactionBreakdown, sumReactions } from './reactions';
+
+// Bump when fields are added or their meaning changes; posts can declare `schemaVersion` in the frontmatter
+export const POST_SCHEMA_VERSION = 1;
+
+type Coerced<T> = { value: T } | { error: string };
+
+// Required fields drop the post when they can't be read; optional ones always have a default of their own type
+type FieldSchema<T> = {
+  coerce: (value: unknown) => Coerced<T>;
+  // File names carry the post time, which is good enough when the frontmatter has none
+  fromFileDate?: (date: Date) => T;
+} & ({ required: true } | { fallback: T });
+
+// Frontmatter fields checked here; tags and the reaction breakdown are filled in from the body afterwards
+type SchemaFields = Omit<PostMetadata, 'reactionBreakdown' | 'tags'>;
+
+function coerceString(value: unknown): Coerced<string> {
+  if (typeof value === 'string') {
+    return value.trim() ? { value: value.trim() } : { error: 'Empty' };
+  }
+  // YAML reads unquoted ids like `12345` as numbers
+  if (typeof value === 'number' || typeof value === 'boolean') {
+    return { value: String(value) };
+  }
+  return { error: `Expected text, got ${Array.isArray(value) ? 'a list' : typeof value}` };
+}
+
+function coerceNumber(value: unknown): Coerced<number> {
+  // Exports write counts like "1,234" or "1.2K"
+  const count = parseCount(value);
+  return count !== null ? { value: count } : { error: `Expected a number, got ${JSON.stringify(value)}` };
+}
+
+// A total, or a breakdown per reaction type that adds up to the total
+function coerceReactions(value: unknown): Coerced<number> {
+  const breakdown = parseReactionBreakdown(value);
+  return breakdown ? { value: sumReactions(breakdown) } : coerceNumber(value);
+}
+
+function coerceDate(value: unknown): Coerced<string> {
+  // YAML reads unquoted timestamps as Date objects
+  const date = value instanceof Date ? value : typeof value === 'string' || typeof value === 'number' ? new Date(value) : null;
+  if (date && !isNaN(date.getTime())) {
+    return { value: date.toISOString() };
+  }
+  return { error: `Expected a date, got ${JSON.stringify(value)}` };
+}
+
+export const POST_METADATA_SCHEMA: { [K in keyof SchemaFields]: FieldSchema<SchemaFields[K]> } = {
+  title: { coerce: coerceString, required: true },
+  author: { coerce: coerceString, required: true },
+  authorId: { coerce: coerceString, fallback: '0' },
+  date: { coerce: coerceDate, fromFileDate: date => date.toISOString(), required: true },
+  feedName: { coerce: coerceString, required: true },
+  feedType: { coerce: coerceString, fallback: 'unknown' },
+  postId: { coerce: coerceString, required: true },
+  reactions: { coerce: coerceReactions, fallback: 0 },
+};
+
+// Checks frontmatter against the schema. Returns null metadata when a required field can't be recovered;
+// every missing, defaulted or coerced-away field is reported either way.
+export function validatePostMetadata(
+  data: Record<string, unknown>,
+  fileName: string,
+  path: string,
+  fileDate: Date | null = null
+): { metadata: PostMetadata | null; diagnostics: PostDiagnostic[] } {
+  const diagnostics: PostDiagnostic[] = [];
+  const report = (severity: PostDiagnostic['severity'], message: string, field?: string) =>
+    diagnostics.push({ fileName, path, severity, field, message });
+
+  const declaredVersion = data.schemaVersion;
+  if (declaredVersion !== undefined && !(typeof declaredVersion === 'number' && declaredVersion <= POST_SCHEMA_VERSION)) {
+    report('warning', `Written for schema version ${declaredVersion}, this app reads version ${POST_SCHEMA_VERSION}`, 'schemaVersion');
+  }
+
+  // Null when a required field can't be recovered
+  const readField = <T>(field: string, schema: FieldSchema<T>): T | null => {
+    const raw = data[field];
+    const missing = raw === undefined || raw === null || raw === '';
+    const result = missing ? { error: 'Missing' } : schema.coerce(raw);
+
+    if ('value' in result) {
+      return result.value;
+    }
+
+    if (schema.fromFileDate && fileDate) {
+      report('warning', `${result.error}, using the date from the file name`, field);
+      return schema.fromFileDate(fileDate);
+    }
+    if ('required' in schema) {
+      report('error', `${result.error} (required)`, field);
+      return null;
+    }
+    // Optional fields are often left out on purpose, so only bad values are worth a warning
+    if (!missing) {
+      report('warning', `${result.error}, using ${JSON.stringify(schema.fallback)}`, field);
+    }
+    return schema.fallback;
+  };
+
+  // Every field is read before checking, so all problems are reported at once
+  const title = readField('title', POST_METADATA_SCHEMA.title);
+  const author = readField('author', POST_METADATA_SCHEMA.author);
+  const authorId = readField('authorId', POST_METADATA_SCHEMA.authorId);
+  const date = readField('date', POST_METADATA_SCHEMA.date);
+  const feedName = readField('feedName', POST_METADATA_SCHEMA.feedName);
+  const feedType = readField('feedType', POST_METADATA_SCHEMA.feedType);
+  const postId = readField('postId', POST_METADATA_SCHEMA.postId);
+  const reactions = readField('reactions', POST_METADATA_SCHEMA.reactions);
+
+  if (title === null || author === null || authorId === null || date === null
+    || feedName === null || feedType === null || postId === null || reactions === null) {
+    return { metadata: null, diagnostics };
+  }
+
+  return { metadata: { title, author, authorId, date, feedName, feedType, postId, reactions }, diagnostics };
+}
@@ -0,0 +1,127 @@
+import { FeedConfig, PostFileEntry } from '@/types/post';
+
+const STORE_PREFIX = 'feed-watcher-store:';
+
+export interface PostFileChange {
+  status: 'added' | 'modified' | 'removed' | 'renamed';
+  path: string;
+  sha: string;
+  previousPath?: string;
+}
+
+interface StoredSnapshot {
+  commitSha: string;
+  syncedAt: number;
+  // [path, sha, size] keeps large listings small in localStorage
+  files: Array<[string, string, number]>;
+}
+
+export interface PostStoreSnapshot {
+  commitSha: string;
+  syncedAt: number;
+  files: PostFileEntry[];
+}
+
+function toEntry(path: string, sha: string, size: number = 0): PostFileEntry {
+  return { name: path.split('/').pop() || path, path, sha, size };
+}
+
+// Remembers the listing of a posts folder at the last synced commit, so later syncs only apply what changed
+export class PostStore {
+  private snapshot: PostStoreSnapshot | null | undefined;
+
+  constructor(private key: string) {}
+
+  static keyFor(config: FeedConfig): string {
+    const postsPath = config.postsPath.split('/').filter(Boolean).join('/');
+    return `${config.owner}/${config.repo}@${config.ref || 'HEAD'}:${postsPath}`;
+  }
+
+  private get storageKey(): string {
+    return `${STORE_PREFIX}${this.key}`;
+  }
+
+  get(): PostStoreSnapshot | null {
+    if (this.snapshot !== undefined) {
+      return this.snapshot;
+    }
+
+    this.snapshot = null;
+    if (typeof window === 'undefined') {
+      return null;
+    }
+
+    try {
+      const stored = localStorage.getItem(this.storageKey);
+      if (stored) {
+        const parsed = JSON.parse(stored) as StoredSnapshot;
+        this.snapshot = {
+          commitSha: parsed.commitSha,
+          syncedAt: parsed.syncedAt,
+          files: parsed.files.map(([path, sha, size]) => toEntry(path, sha, size)),
+        };
+      }
+    } catch (error) {
+      console.warn('Failed to load post store:', error);
+    }
+
+    return this.snapshot;
+  }
+
+  findFile(path: string): PostFileEntry | undefined {
+    return this.get()?.files.find(file => file.path === path);
+  }
+
+  replace(commitSha: string, files: PostFileEntry[]): PostStoreSnapshot {
+    this.snapshot = { commitSha, syncedAt: Date.now(), files };
+    this.persist();
+    return this.snapshot;
+  }
+
+  // Patches the listing with the files a compare reported, keeping only those inside `basePath`
+  applyChanges(commitSha: string, changes: PostFileChange[], basePath: string): PostStoreSnapshot {
+    const inBase = (path: string) => !basePath || path.startsWith(`${basePath}/`);
+    const files = new Map((this.get()?.files || []).map(file => [file.path, file]));
+
+    for (const change of changes) {
+      if (change.previousPath) {
+        files.delete(change.previousPath);
+      }
+      if (change.status === 'removed') {
+        files.delete(change.path);
+      } else if (inBase(change.path)) {
+        files.set(change.path, toEntry(change.path, change.sha, files.get(change.path)?.size));
+      }
+    }
+
+    return this.replace(commitSha, Array.from(files.values()));
+  }
+
+  clear(): void {
+    this.snapshot = null;
+    if (typeof window === 'undefined') return;
+
+    try {
+      localStorage.removeItem(this.storageKey);
+    } catch (error) {
+      console.warn('Failed to clear post store:', error);
+    }
+  }
+
+  private persist() {
+    if (typeof window === 'undefined' || !this.snapshot) return;
+
+    const stored: StoredSnapshot = {
+      commitSha: this.snapshot.commitSha,
+      syncedAt: this.snapshot.syncedAt,
+      files: this.snapshot.files.map(file => [file.path, file.sha, file.size]),
+    };
+
+    try {
+      localStorage.setItem(this.storageKey, JSON.stringify(stored));
+    } catch (error) {
+      // Still usable for this session; the next visit lists the folder again
+      console.warn('Failed to save post store:', error);
+    }
+  }
+}
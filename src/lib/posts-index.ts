@@ -0,0 +1,115 @@
+import { Post, PostIndexEntry, PostIndexManifest } from '@/types/post';
+
+export const POSTS_INDEX_DIR = 'posts-index';
+export const POSTS_INDEX_MANIFEST = 'manifest.json';
+// Version 2 added tags to the entry metadata, version 3 comment counts, version 4 reaction breakdowns,
+// version 5 code snippets, version 6 the path to shard map
+export const POSTS_INDEX_VERSION = 6;
+
+export interface IndexLookupFile {
+  path: string;
+  sha?: string;
+  modifiedAt?: number;
+}
+
+export function createIndexEntry(post: Post, relativePath: string, sha: string): PostIndexEntry {
+  return {
+    path: relativePath,
+    fileName: post.fileName,
+    sha,
+    metadata: post.metadata,
+    preview: post.content,
+    attachments: post.attachments,
+    comments: post.engagement.totalComments,
+    codeSnippet: post.codeSnippet,
+  };
+}
+
+export function indexEntryToPost(entry: PostIndexEntry, path: string): Post {
+  return {
+    metadata: entry.metadata,
+    content: entry.preview,
+    codeSnippet: entry.codeSnippet,
+    attachments: entry.attachments,
+    engagement: {
+      totalReactions: entry.metadata.reactions,
+      reactions: entry.metadata.reactionBreakdown,
+      totalComments: entry.comments || 0,
+    },
+    fileName: entry.fileName,
+    path,
+  };
+}
+
+export function parseIndexManifest(content: string): PostIndexManifest | null {
+  try {
+    const manifest = JSON.parse(content) as PostIndexManifest;
+    if (manifest.version !== POSTS_INDEX_VERSION || !Array.isArray(manifest.shards) || !manifest.paths) {
+      console.warn(`Ignoring posts index with unsupported version ${manifest.version}`);
+      return null;
+    }
+    return manifest;
+  } catch (error) {
+    console.warn('Failed to parse posts index manifest:', error);
+    return null;
+  }
+}
+
+// Serves page previews from the sharded index, falling back to the files for anything stale or missing
+export class PostIndexReader {
+  private shards: Map<number, Promise<PostIndexEntry[]>> = new Map();
+
+  constructor(
+    private manifest: PostIndexManifest,
+    private basePath: string,
+    private readShard: (name: string) => Promise<string>
+  ) {}
+
+  private toRelativePath(path: string): string {
+    const prefix = this.basePath ? `${this.basePath}/` : '';
+    return prefix && path.startsWith(prefix) ? path.substring(prefix.length) : path;
+  }
+
+  private loadShard(index: number): Promise<PostIndexEntry[]> {
+    if (!this.shards.has(index)) {
+      const shard = this.readShard(this.manifest.shards[index])
+        .then(content => JSON.parse(content) as PostIndexEntry[])
+        .catch(error => {
+          console.warn(`Failed to load posts index shard ${this.manifest.shards[index]}:`, error);
+          return [];
+        });
+      this.shards.set(index, shard);
+    }
+    return this.shards.get(index)!;
+  }
+
+  async lookup(files: IndexLookupFile[]): Promise<Map<string, Post>> {
+    const result = new Map<string, Post>();
+
+    // Posts added since the build or skipped by it shift positions in the listing, so shards are found by path
+    const shardIndexes = new Set<number>();
+    for (const file of files) {
+      const shard = this.manifest.paths[this.toRelativePath(file.path)];
+      if (shard !== undefined && shard < this.manifest.shards.length) {
+        shardIndexes.add(shard);
+      }
+    }
+
+    const entries = new Map<string, PostIndexEntry>();
+    for (const shard of (await Promise.all(Array.from(shardIndexes, index => this.loadShard(index))))) {
+      shard.forEach(entry => entries.set(entry.path, entry));
+    }
+
+    const generatedAt = new Date(this.manifest.generatedAt).getTime();
+
+    for (const file of files) {
+      const entry = entries.get(this.toRelativePath(file.path));
+      if (!entry) continue;
+      if (file.sha && entry.sha !== file.sha) continue;
+      if (file.modifiedAt && file.modifiedAt > generatedAt) continue;
+      result.set(file.path, indexEntryToPost(entry, file.path));
+    }
+
+    return result;
+  }
+}
@@ -0,0 +1,73 @@
+import { ReactionBreakdown, ReactionType } from '@/types/post';
+
+export const REACTION_TYPES: ReactionType[] = ['like', 'love', 'care', 'haha', 'wow', 'sad', 'angry'];
+
+export const REACTION_LABELS: Record<ReactionType, { label: string; emoji: string }> = {
+  like: { label: 'Like', emoji: '👍' },
+  love: { label: 'Love', emoji: '❤️' },
+  care: { label: 'Care', emoji: '🥰' },
+  haha: { label: 'Haha', emoji: '😆' },
+  wow: { label: 'Wow', emoji: '😮' },
+  sad: { label: 'Sad', emoji: '😢' },
+  angry: { label: 'Angry', emoji: '😡' },
+};
+
+// Reads counts like 12, "1,234" or "1.2K"
+export function parseCount(value: unknown): number | null {
+  if (typeof value === 'number') {
+    return Number.isFinite(value) && value >= 0 ? Math.round(value) : null;
+  }
+  if (typeof value !== 'string') {
+    return null;
+  }
+  const match = value.trim().replace(/[,\s]/g, '').match(/^(\d+(?:\.\d+)?)([kKmM]?)$/);
+  if (!match) {
+    return null;
+  }
+  const multiplier = { k: 1e3, m: 1e6 }[match[2].toLowerCase() as 'k' | 'm'] || 1;
+  return Math.round(parseFloat(match[1]) * multiplier);
+}
+
+function toReactionType(label: string): ReactionType | null {
+  const key = label.trim().toLowerCase().replace(/s$/, '') as ReactionType;
+  return REACTION_TYPES.includes(key) ? key : null;
+}
+
+// Frontmatter `reactions: { like: 10, love: 2 }`; returns null for a plain total or unknown keys only
+export function parseReactionBreakdown(value: unknown): ReactionBreakdown | null {
+  if (typeof value !== 'object' || value === null || Array.isArray(value)) {
+    return null;
+  }
+  return collectBreakdown(Object.entries(value));
+}
+
+// `- **Like:** 10` lines from the `## Engagement` section
+export function breakdownFromEngagement(engagement: Record<string, string>): ReactionBreakdown | null {
+  return collectBreakdown(Object.entries(engagement));
+}
+
+function collectBreakdown(entries: Array<[string, unknown]>): ReactionBreakdown | null {
+  const breakdown: ReactionBreakdown = {};
+  let found = false;
+  for (const [label, count] of entries) {
+    const type = toReactionType(label);
+    const parsed = parseCount(count);
+    if (type && parsed !== null) {
+      breakdown[type] = parsed;
+      found = true;
+    }
+  }
+  return found ? breakdown : null;
+}
+
+export function sumReactions(breakdown: ReactionBreakdown): number {
+  return REACTION_TYPES.reduce((total, type) => total + (breakdown[type] || 0), 0);
+}
+
+// Reaction types with a count, most used first
+export function sortedReactions(breakdown: ReactionBreakdown): Array<{ type: ReactionType; count: number }> {
+  return REACTION_TYPES
+    .map(type => ({ type, count: breakdown[type] || 0 }))
+    .filter(({ count }) => count > 0)
+    .sort((a, b) => b.count - a.count);
+}
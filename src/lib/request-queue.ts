@@ -0,0 +1,322 @@
+import { createAbortError } from './fetch-scheduler';
+
+export type RequestPriority = 'user' | 'background';
+
+export interface RequestQueueState {
+  pending: {
+    user: number;
+    background: number;
+  };
+  inFlight: number;
+  retries: number;
+  pausedUntil: number;
+  pauseReason?: string;
+  remaining: number;
+  limit: number;
+  resetTime: number;
+}
+
+export class RateLimitError extends Error {
+  constructor(message: string, public resetTime: number) {
+    super(message);
+    this.name = 'RateLimitError';
+  }
+}
+
+interface QueuedRequest {
+  execute: (signal?: AbortSignal) => Promise<Response>;
+  priority: RequestPriority;
+  signal?: AbortSignal;
+  attempt: number;
+  notBefore: number;
+  resolve: (response: Response) => void;
+  reject: (error: unknown) => void;
+}
+
+const RETRYABLE_STATUSES = [500, 502, 503, 504];
+
+// Retry-After is either a number of seconds or an HTTP date
+function parseRetryAfter(value: string | null): number | null {
+  if (!value) {
+    return null;
+  }
+  const seconds = Number(value);
+  if (value.trim() !== '' && Number.isFinite(seconds)) {
+    return Math.max(seconds * 1000, 0);
+  }
+  const date = Date.parse(value);
+  return isNaN(date) ? null : Math.max(date - Date.now(), 0);
+}
+
+// Background work keeps a slice of the budget free for loads the user is waiting on
+function getBackgroundReserve(limit: number): number {
+  return Math.max(5, Math.floor(limit * 0.1));
+}
+
+// Whether background work can make this many more requests before it would have to wait for the reset
+export function hasBackgroundBudget(state: RequestQueueState, requests: number): boolean {
+  if (Date.now() >= state.resetTime * 1000) {
+    return true;
+  }
+  return state.remaining - requests >= getBackgroundReserve(state.limit);
+}
+
+export class RequestQueue {
+  private readonly maxConcurrent = 6;
+  private readonly maxRetries = 3;
+  private readonly baseRetryDelay = 1000; // 1 second, doubled on every attempt
+  private readonly secondaryLimitDelay = 60 * 1000; // GitHub asks to wait at least a minute
+  private readonly maxUserWait = 60 * 1000; // Fail user requests instead of waiting longer than this
+  private queue: QueuedRequest[] = [];
+  private inFlight: number = 0;
+  private retries: number = 0;
+  private pausedUntil: number = 0;
+  private pauseReason?: string;
+  private remaining: number;
+  private limit: number;
+  private resetTime: number = 0;
+  private timer: ReturnType<typeof setTimeout> | null = null;
+  private listeners: Set<(state: RequestQueueState) => void> = new Set();
+
+  constructor(limit: number) {
+    this.limit = limit;
+    this.remaining = limit;
+  }
+
+  schedule(
+    execute: (signal?: AbortSignal) => Promise<Response>,
+    options: { priority?: RequestPriority; signal?: AbortSignal } = {}
+  ): Promise<Response> {
+    const { priority = 'user', signal } = options;
+
+    if (signal?.aborted) {
+      return Promise.reject(createAbortError());
+    }
+
+    return new Promise<Response>((resolve, reject) => {
+      const onAbort = () => {
+        if (this.remove(request)) {
+          request.reject(createAbortError());
+        }
+      };
+      // The signal is shared by every request of a client, so settled requests must let go of it
+      const settle = () => signal?.removeEventListener('abort', onAbort);
+
+      const request: QueuedRequest = {
+        execute,
+        priority,
+        signal,
+        attempt: 0,
+        notBefore: 0,
+        resolve: response => {
+          settle();
+          resolve(response);
+        },
+        reject: error => {
+          settle();
+          reject(error);
+        },
+      };
+
+      signal?.addEventListener('abort', onAbort, { once: true });
+
+      this.queue.push(request);
+      this.notify();
+      this.pump();
+    });
+  }
+
+  getState(): RequestQueueState {
+    return {
+      pending: {
+        user: this.queue.filter(request => request.priority === 'user').length,
+        background: this.queue.filter(request => request.priority === 'background').length,
+      },
+      inFlight: this.inFlight,
+      retries: this.retries,
+      pausedUntil: this.pausedUntil > Date.now() ? this.pausedUntil : 0,
+      pauseReason: this.pausedUntil > Date.now() ? this.pauseReason : undefined,
+      remaining: this.remaining,
+      limit: this.limit,
+      resetTime: this.resetTime,
+    };
+  }
+
+  subscribe(listener: (state: RequestQueueState) => void): () => void {
+    this.listeners.add(listener);
+    return () => {
+      this.listeners.delete(listener);
+    };
+  }
+
+  private notify() {
+    const state = this.getState();
+    this.listeners.forEach(listener => listener(state));
+  }
+
+  private remove(request: QueuedRequest): boolean {
+    const index = this.queue.indexOf(request);
+    if (index === -1) {
+      return false;
+    }
+    this.queue.splice(index, 1);
+    this.notify();
+    return true;
+  }
+
+  private getReadyTime(request: QueuedRequest, now: number): number {
+    let readyAt = Math.max(request.notBefore, this.pausedUntil);
+
+    const resetAt = this.resetTime * 1000;
+    if (now < resetAt) {
+      const floor = request.priority === 'user' ? 0 : getBackgroundReserve(this.limit);
+      if (this.remaining <= floor) {
+        readyAt = Math.max(readyAt, resetAt);
+      }
+    }
+
+    return readyAt;
+  }
+
+  private pump() {
+    if (this.timer) {
+      clearTimeout(this.timer);
+      this.timer = null;
+    }
+
+    const now = Date.now();
+    let nextWake = Infinity;
+
+    // User-initiated requests always go first
+    const ordered = [
+      ...this.queue.filter(request => request.priority === 'user'),
+      ...this.queue.filter(request => request.priority === 'background'),
+    ];
+
+    for (const request of ordered) {
+      if (this.inFlight >= this.maxConcurrent) {
+        break;
+      }
+
+      const readyAt = this.getReadyTime(request, now);
+
+      if (readyAt > now) {
+        if (request.priority === 'user' && readyAt - now > this.maxUserWait) {
+          this.remove(request);
+          request.reject(new RateLimitError('Rate limit exceeded. Please try again later.', this.resetTime));
+          continue;
+        }
+        nextWake = Math.min(nextWake, readyAt);
+        continue;
+      }
+
+      this.remove(request);
+      this.run(request);
+    }
+
+    if (nextWake !== Infinity && this.queue.length > 0) {
+      this.timer = setTimeout(() => this.pump(), Math.max(nextWake - Date.now(), 0));
+    }
+  }
+
+  private updateRateLimit(headers: Headers) {
+    const limit = headers.get('X-RateLimit-Limit');
+    const remaining = headers.get('X-RateLimit-Remaining');
+    const reset = headers.get('X-RateLimit-Reset');
+
+    if (limit) this.limit = parseInt(limit);
+    if (remaining) this.remaining = parseInt(remaining);
+    if (reset) this.resetTime = parseInt(reset);
+  }
+
+  private pause(until: number, reason: string) {
+    if (until > this.pausedUntil) {
+      this.pausedUntil = until;
+      this.pauseReason = reason;
+      console.warn(`Request queue paused for ${Math.ceil((until - Date.now()) / 1000)}s: ${reason}`);
+    }
+  }
+
+  private getBackoffDelay(attempt: number): number {
+    // Exponential backoff with full jitter
+    const delay = this.baseRetryDelay * Math.pow(2, attempt);
+    return Math.floor(delay / 2 + Math.random() * delay / 2);
+  }
+
+  private async getRetryDelay(response: Response, attempt: number): Promise<number | null> {
+    const retryAfter = parseRetryAfter(response.headers.get('Retry-After'));
+
+    if (response.status === 403 || response.status === 429) {
+      if (retryAfter !== null) {
+        const delay = retryAfter;
+        this.pause(Date.now() + delay, 'Retry-After');
+        return delay;
+      }
+
+      if (this.remaining === 0 && this.resetTime > 0) {
+        const delay = this.resetTime * 1000 - Date.now();
+        this.pause(this.resetTime * 1000, 'Primary rate limit exhausted');
+        return Math.max(delay, 0);
+      }
+
+      const body = await response.clone().text().catch(() => '');
+      if (/secondary rate limit/i.test(body)) {
+        this.pause(Date.now() + this.secondaryLimitDelay, 'Secondary rate limit');
+        return this.secondaryLimitDelay;
+      }
+
+      return null;
+    }
+
+    if (RETRYABLE_STATUSES.includes(response.status)) {
+      return retryAfter ?? this.getBackoffDelay(attempt);
+    }
+
+    return null;
+  }
+
+  private retry(request: QueuedRequest, delay: number) {
+    request.attempt++;
+    request.notBefore = Date.now() + delay;
+    this.retries++;
+    this.queue.push(request);
+  }
+
+  private async run(request: QueuedRequest) {
+    this.inFlight++;
+    this.notify();
+
+    try {
+      const response = await request.execute(request.signal);
+      this.updateRateLimit(response.headers);
+
+      const delay = response.ok || response.status === 304 ? null : await this.getRetryDelay(response, request.attempt);
+      const canWait = request.priority === 'background' || (delay !== null && delay <= this.maxUserWait);
+
+      if (delay !== null && canWait && request.attempt < this.maxRetries && !request.signal?.aborted) {
+        this.retry(request, delay);
+      } else {
+        request.resolve(response);
+      }
+    } catch (error) {
+      const aborted = request.signal?.aborted || (error instanceof Error && error.name === 'AbortError');
+
+      if (!aborted && request.attempt < this.maxRetries) {
+        // Network failures are usually transient
+        this.retry(request, this.getBackoffDelay(request.attempt));
+      } else {
+        request.reject(error);
+      }
+    } finally {
+      this.inFlight--;
+      this.notify();
+      this.pump();
+    }
+  }
+}
+
+// Rate limits apply per user or per IP, so every API client shares the same queues
+export const requestQueues: Record<'anonymous' | 'authenticated', RequestQueue> = {
+  anonymous: new RequestQueue(60),
+  authenticated: new RequestQueue(5000),
+};
@@ -0,0 +1,264 @@
+import { FeedConfig, Post } from '@/types/post';
+import { foldText, tokenize } from './search';
+
+const DB_NAME = 'feed-watcher-search';
+const DB_VERSION = 1;
+const STORE_NAME = 'documents';
+
+// What is kept per post; `body` is the preview until the post is opened and its full text is added
+export interface SearchDocument {
+  key: string;
+  scope: string;
+  path: string;
+  title: string;
+  author: string;
+  feedName: string;
+  tags: string[];
+  body: string;
+  date: string;
+  fullText: boolean;
+}
+
+export interface SearchResult {
+  document: SearchDocument;
+  score: number;
+}
+
+interface PreparedDocument {
+  document: SearchDocument;
+  fields: Array<{ tokens: string[]; folded: string; weight: number }>;
+}
+
+// Matches in the title count most, the body least
+const FIELD_WEIGHTS = { title: 5, tags: 4, author: 3, feedName: 2, body: 1 };
+
+// The same posts folder at the same ref and date is the same archive
+export function getSearchScope(config: FeedConfig): string {
+  const extra = (config.sources || []).map(source => `${source.repositoryUrl}:${source.postsPath}`).join(',');
+  return [config.source || 'auto', config.repositoryUrl, config.postsPath, config.ref || '', config.asOf || '', extra].join('|');
+}
+
+function openDatabase(): Promise<IDBDatabase> | null {
+  if (typeof indexedDB === 'undefined') {
+    return null;
+  }
+
+  return new Promise((resolve, reject) => {
+    const request = indexedDB.open(DB_NAME, DB_VERSION);
+    request.onupgradeneeded = () => {
+      const store = request.result.createObjectStore(STORE_NAME, { keyPath: 'key' });
+      store.createIndex('scope', 'scope');
+    };
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+  });
+}
+
+function requestToPromise<T>(request: IDBRequest<T>): Promise<T> {
+  return new Promise((resolve, reject) => {
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+  });
+}
+
+function prepare(document: SearchDocument): PreparedDocument {
+  const field = (text: string, weight: number) => ({ tokens: tokenize(text), folded: foldText(text), weight });
+  return {
+    document,
+    fields: [
+      field(document.title, FIELD_WEIGHTS.title),
+      field(document.tags.join(' '), FIELD_WEIGHTS.tags),
+      field(document.author, FIELD_WEIGHTS.author),
+      field(document.feedName, FIELD_WEIGHTS.feedName),
+      field(document.body, FIELD_WEIGHTS.body),
+    ],
+  };
+}
+
+// Full-text index of the posts of one archive, kept in IndexedDB and filled in as posts load
+export class SearchIndex {
+  private documents: Map<string, PreparedDocument> = new Map();
+  private loaded: Promise<void> | null = null;
+  private db: Promise<IDBDatabase> | null = null;
+  private listeners: Set<() => void> = new Set();
+
+  constructor(private scope: string) {}
+
+  private getDatabase(): Promise<IDBDatabase> | null {
+    if (!this.db) {
+      this.db = openDatabase();
+      this.db?.catch(error => console.warn('Search index storage unavailable:', error));
+    }
+    return this.db;
+  }
+
+  load(): Promise<void> {
+    if (!this.loaded) {
+      this.loaded = (async () => {
+        const db = this.getDatabase();
+        if (!db) return;
+        try {
+          const store = (await db).transaction(STORE_NAME).objectStore(STORE_NAME);
+          const stored = await requestToPromise(store.index('scope').getAll(this.scope) as IDBRequest<SearchDocument[]>);
+          for (const document of stored) {
+            // Posts added while loading are newer than the stored copy
+            if (!this.documents.has(document.path)) {
+              this.documents.set(document.path, prepare(document));
+            }
+          }
+          this.notify();
+        } catch (error) {
+          console.warn('Failed to load search index:', error);
+        }
+      })();
+    }
+    return this.loaded;
+  }
+
+  get size(): number {
+    return this.documents.size;
+  }
+
+  subscribe(listener: () => void): () => void {
+    this.listeners.add(listener);
+    return () => this.listeners.delete(listener);
+  }
+
+  private notify() {
+    this.listeners.forEach(listener => listener());
+  }
+
+  private async persist(documents: SearchDocument[], removedPaths: string[] = []) {
+    const db = this.getDatabase();
+    if (!db || (documents.length === 0 && removedPaths.length === 0)) return;
+    try {
+      const transaction = (await db).transaction(STORE_NAME, 'readwrite');
+      const store = transaction.objectStore(STORE_NAME);
+      documents.forEach(document => store.put(document));
+      removedPaths.forEach(path => store.delete(`${this.scope}\n${path}`));
+      await new Promise<void>((resolve, reject) => {
+        transaction.oncomplete = () => resolve();
+        transaction.onerror = () => reject(transaction.error);
+      });
+    } catch (error) {
+      console.warn('Failed to save search index:', error);
+    }
+  }
+
+  // Adds or refreshes posts from a page; a full body from an opened post is kept over the preview
+  addPosts(posts: Post[]): Promise<void> {
+    const changed: SearchDocument[] = [];
+    for (const post of posts) {
+      const existing = this.documents.get(post.path)?.document;
+      const document: SearchDocument = {
+        key: `${this.scope}\n${post.path}`,
+        scope: this.scope,
+        path: post.path,
+        title: post.metadata.title,
+        author: post.metadata.author,
+        feedName: post.metadata.feedName,
+        tags: post.metadata.tags || [],
+        body: existing?.fullText ? existing.body : [post.content, post.codeSnippet?.code].filter(Boolean).join('\n'),
+        date: post.metadata.date,
+        fullText: !!existing?.fullText,
+      };
+      if (!existing || JSON.stringify(existing) !== JSON.stringify(document)) {
+        this.documents.set(post.path, prepare(document));
+        changed.push(document);
+      }
+    }
+    if (changed.length > 0) this.notify();
+    return this.persist(changed);
+  }
+
+  addBody(post: Post, body: string): Promise<void> {
+    const document: SearchDocument = {
+      key: `${this.scope}\n${post.path}`,
+      scope: this.scope,
+      path: post.path,
+      title: post.metadata.title,
+      author: post.metadata.author,
+      feedName: post.metadata.feedName,
+      tags: post.metadata.tags || [],
+      body,
+      date: post.metadata.date,
+      fullText: true,
+    };
+    this.documents.set(post.path, prepare(document));
+    this.notify();
+    return this.persist([document]);
+  }
+
+  remove(path: string): Promise<void> {
+    if (!this.documents.delete(path)) return Promise.resolve();
+    this.notify();
+    return this.persist([], [path]);
+  }
+
+  // After every post has been loaded, drops posts that were deleted since they were indexed
+  prune(existingPaths: Set<string>): Promise<void> {
+    const removed = Array.from(this.documents.keys()).filter(path => !existingPaths.has(path));
+    if (removed.length === 0) return Promise.resolve();
+    removed.forEach(path => this.documents.delete(path));
+    this.notify();
+    return this.persist([], removed);
+  }
+
+  // Every query word has to match the start of a word somewhere; whole words and phrases rank higher
+  search(query: string, limit: number = 50): SearchResult[] {
+    const terms = tokenize(query);
+    if (terms.length === 0) {
+      return [];
+    }
+    const phrase = terms.join(' ');
+
+    const results: SearchResult[] = [];
+    for (const { document, fields } of Array.from(this.documents.values())) {
+      let score = 0;
+      let matchedAll = true;
+
+      for (const term of terms) {
+        let termScore = 0;
+        for (const field of fields) {
+          for (const token of field.tokens) {
+            if (token === term) {
+              termScore += field.weight * 2;
+            } else if (token.startsWith(term)) {
+              termScore += field.weight;
+            }
+          }
+        }
+        if (termScore === 0) {
+          matchedAll = false;
+          break;
+        }
+        score += termScore;
+      }
+
+      if (!matchedAll) continue;
+      if (terms.length > 1) {
+        fields.forEach(field => {
+          if (field.folded.includes(phrase)) score += field.weight * 3;
+        });
+      }
+      results.push({ document, score });
+    }
+
+    return results
+      .sort((a, b) => b.score - a.score || new Date(b.document.date).getTime() - new Date(a.document.date).getTime())
+      .slice(0, limit);
+  }
+}
+
+const indexes: Map<string, SearchIndex> = new Map();
+
+// One index per archive per tab, shared by the feed, search page and detail view
+export function getSearchIndex(config: FeedConfig): SearchIndex {
+  const scope = getSearchScope(config);
+  if (!indexes.has(scope)) {
+    const index = new SearchIndex(scope);
+    indexes.set(scope, index);
+    index.load();
+  }
+  return indexes.get(scope)!;
+}
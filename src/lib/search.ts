@@ -0,0 +1,133 @@
+// Text helpers for search. Folding drops diacritics so "tieng viet" matches "tiếng Việt".
+import type { ElementContent, Root } from 'hast';
+
+export interface TextPart {
+  text: string;
+  match: boolean;
+}
+
+// đ has no combining-mark form, so NFD alone doesn't reduce it to d
+function foldChar(char: string): string {
+  return char.normalize('NFD').replace(/\p{M}/gu, '').replace(/đ/g, 'd').replace(/Đ/g, 'D').toLowerCase();
+}
+
+export function foldText(text: string): string {
+  return text.normalize('NFD').replace(/\p{M}/gu, '').replace(/[đĐ]/g, 'd').toLowerCase();
+}
+
+export function tokenize(text: string): string[] {
+  return foldText(text).split(/[^\p{L}\p{N}]+/u).filter(Boolean);
+}
+
+// Folds text while remembering where each folded character came from, so matches map back to the original
+function foldWithOffsets(text: string): { folded: string; offsets: number[] } {
+  let folded = '';
+  const offsets: number[] = [];
+  let position = 0;
+  for (const char of text.normalize('NFC')) {
+    const foldedChar = foldChar(char);
+    for (let i = 0; i < foldedChar.length; i++) {
+      offsets.push(position);
+    }
+    folded += foldedChar;
+    position += char.length;
+  }
+  offsets.push(position);
+  return { folded, offsets };
+}
+
+// Splits text into matched and unmatched parts; a match is a query word at the start of a word
+export function highlightParts(text: string, query: string): TextPart[] {
+  const terms = tokenize(query);
+  if (terms.length === 0 || !text) {
+    return [{ text, match: false }];
+  }
+
+  const source = text.normalize('NFC');
+  const { folded, offsets } = foldWithOffsets(source);
+  const ranges: Array<[number, number]> = [];
+
+  for (const term of terms) {
+    let index = folded.indexOf(term);
+    while (index !== -1) {
+      const atWordStart = index === 0 || !/[\p{L}\p{N}]/u.test(folded[index - 1]);
+      if (atWordStart) {
+        ranges.push([offsets[index], offsets[index + term.length]]);
+      }
+      index = folded.indexOf(term, index + term.length);
+    }
+  }
+
+  if (ranges.length === 0) {
+    return [{ text: source, match: false }];
+  }
+
+  // Merge overlapping ranges from different terms
+  ranges.sort((a, b) => a[0] - b[0]);
+  const merged: Array<[number, number]> = [];
+  for (const range of ranges) {
+    const last = merged[merged.length - 1];
+    if (last && range[0] <= last[1]) {
+      last[1] = Math.max(last[1], range[1]);
+    } else {
+      merged.push([...range]);
+    }
+  }
+
+  const parts: TextPart[] = [];
+  let cursor = 0;
+  for (const [start, end] of merged) {
+    if (start > cursor) parts.push({ text: source.slice(cursor, start), match: false });
+    parts.push({ text: source.slice(start, end), match: true });
+    cursor = end;
+  }
+  if (cursor < source.length) parts.push({ text: source.slice(cursor), match: false });
+  return parts;
+}
+
+// A window of text around the first match, for result lists
+export function matchExcerpt(text: string, query: string, length: number = 200): string {
+  const chars = Array.from(text);
+  if (chars.length <= length) {
+    return text;
+  }
+
+  const firstTerm = tokenize(query)[0];
+  const foldedChars = chars.map(foldChar);
+  let matchAt = 0;
+  if (firstTerm) {
+    // Folding keeps one character per character except for rare ligatures, close enough for an excerpt
+    const index = foldedChars.join('').indexOf(firstTerm);
+    matchAt = index === -1 ? 0 : index;
+  }
+
+  const start = Math.max(0, Math.min(matchAt - Math.floor(length / 3), chars.length - length));
+  const excerpt = chars.slice(start, start + length).join('');
+  return `${start > 0 ? '…' : ''}${excerpt}${start + length < chars.length ? '…' : ''}`;
+}
+
+function markMatches(nodes: ElementContent[], query: string): ElementContent[] {
+  return nodes.flatMap<ElementContent>(node => {
+    if (node.type === 'element') {
+      // Code keeps its own highlighting
+      if (node.tagName !== 'pre' && node.tagName !== 'code' && node.tagName !== 'mark') {
+        node.children = markMatches(node.children, query);
+      }
+      return [node];
+    }
+    if (node.type !== 'text') {
+      return [node];
+    }
+    return highlightParts(node.value, query).map<ElementContent>(part => part.match
+      ? { type: 'element', tagName: 'mark', properties: { className: ['search-match'] }, children: [{ type: 'text', value: part.text }] }
+      : { type: 'text', value: part.text });
+  });
+}
+
+// Wraps query matches in rendered post bodies in <mark>
+export function rehypeSearchHighlight({ query }: { query: string }) {
+  return (tree: Root) => {
+    if (tokenize(query).length === 0) return;
+    tree.children = markMatches(tree.children as ElementContent[], query) as Root['children'];
+  };
+}
@@ -0,0 +1,258 @@
+import { FeedConfig, Post, PostDiagnostic, PostRevision, PostsPage } from '@/types/post';
+import { PostChange, PostSource, PostSourceCapabilities, PostSourceStats } from '@/types/source';
+import type { RequestPriority } from '../request-queue';
+import { createAbortError, isAbortError } from '../fetch-scheduler';
+import { comparePostsByDate } from '../post-files';
+
+export const PRIMARY_SOURCE_ID = 'primary';
+
+// Separates the source id from the original path in merged post paths
+const PATH_SEPARATOR = ':';
+
+export interface FeedSourceEntry {
+  id: string;
+  label: string;
+  enabled: boolean;
+  config: FeedConfig;
+}
+
+interface AggregateChild extends FeedSourceEntry {
+  source: PostSource;
+}
+
+interface SourceCursor {
+  child: AggregateChild;
+  nextPage: number;
+  hasMore: boolean;
+  buffer: Post[];
+  error?: string;
+}
+
+// Merges several sources into one timeline, pulling pages from each source only as far as the merge needs
+export class AggregateSource implements PostSource {
+  readonly id = 'aggregate';
+  readonly label = 'Multiple sources';
+  readonly capabilities: PostSourceCapabilities;
+  private children: AggregateChild[];
+  private cursors: SourceCursor[] = [];
+  private pages: PostsPage[] = [];
+  private pageSize = 0;
+  // Pages build on the cursors left by the previous page, so they are produced one at a time
+  private pending: Promise<unknown> = Promise.resolve();
+  private generation = 0;
+
+  constructor(children: AggregateChild[]) {
+    this.children = children;
+    const sources = children.map(child => child.source);
+    this.capabilities = {
+      mode: sources.every(source => source.capabilities.mode === 'local') ? 'local' : 'remote',
+      rateLimited: sources.some(source => source.capabilities.rateLimited),
+      cache: sources.some(source => source.capabilities.cache),
+      preload: sources.some(source => source.capabilities.preload),
+      refs: false,
+      watch: sources.some(source => source.capabilities.watch),
+      history: sources.some(source => source.capabilities.history),
+    };
+  }
+
+  private get enabledChildren(): AggregateChild[] {
+    return this.children.filter(child => child.enabled);
+  }
+
+  private reset(pageSize: number) {
+    this.generation++;
+    this.pageSize = pageSize;
+    this.pages = [];
+    this.cursors = this.enabledChildren.map(child => ({ child, nextPage: 1, hasMore: true, buffer: [] }));
+  }
+
+  private toMergedPath(child: AggregateChild, path: string): string {
+    return `${child.id}${PATH_SEPARATOR}${path}`;
+  }
+
+  private fromMergedPath(mergedPath: string): { child: AggregateChild; path: string } {
+    const separator = mergedPath.indexOf(PATH_SEPARATOR);
+    const child = separator > 0 && this.children.find(entry => entry.id === mergedPath.substring(0, separator));
+    if (child) {
+      return { child, path: mergedPath.substring(separator + 1) };
+    }
+    // Links from before sources were added point at the main repository
+    return { child: this.children[0], path: mergedPath };
+  }
+
+  private tagPost(child: AggregateChild, post: Post): Post {
+    return {
+      ...post,
+      path: this.toMergedPath(child, post.path),
+      origin: { id: child.id, label: child.label },
+    };
+  }
+
+  async getPosts(page: number = 1, pageSize: number = 10, priority: RequestPriority = 'user'): Promise<PostsPage> {
+    const run = this.pending.then(() => this.loadPage(page, pageSize, priority));
+    this.pending = run.catch(() => {});
+    return run;
+  }
+
+  private async loadPage(page: number, pageSize: number, priority: RequestPriority): Promise<PostsPage> {
+    if (page === 1 || pageSize !== this.pageSize) {
+      this.reset(pageSize);
+    }
+
+    const generation = this.generation;
+    while (this.pages.length < page) {
+      const merged = await this.mergeNextPage(pageSize, priority, generation);
+      this.pages.push(merged);
+      if (!merged.hasMore) break;
+    }
+
+    return this.pages[page - 1] || { posts: [], hasMore: false, diagnostics: [] };
+  }
+
+  private async fill(cursor: SourceCursor, pageSize: number, priority: RequestPriority, diagnostics: PostDiagnostic[]) {
+    const { child } = cursor;
+    try {
+      const result = await child.source.getPosts(cursor.nextPage, pageSize, priority);
+      cursor.nextPage++;
+      cursor.hasMore = result.hasMore;
+      cursor.buffer.push(...result.posts.map(post => this.tagPost(child, post)));
+      diagnostics.push(...result.diagnostics.map(diagnostic => ({
+        ...diagnostic,
+        path: this.toMergedPath(child, diagnostic.path),
+      })));
+    } catch (error) {
+      if (isAbortError(error)) {
+        throw error;
+      }
+      // One broken source shouldn't take the others down with it
+      cursor.hasMore = false;
+      cursor.error = error instanceof Error ? error.message : 'Unknown error';
+      diagnostics.push({ fileName: child.label, path: child.id, severity: 'error', message: `Source unavailable: ${cursor.error}` });
+    }
+  }
+
+  private async mergeNextPage(pageSize: number, priority: RequestPriority, generation: number): Promise<PostsPage> {
+    const posts: Post[] = [];
+    const diagnostics: PostDiagnostic[] = [];
+
+    while (posts.length < pageSize) {
+      // Every source needs a head post before we know which one is newest
+      await Promise.all(
+        this.cursors
+          .filter(cursor => cursor.buffer.length === 0 && cursor.hasMore)
+          .map(cursor => this.fill(cursor, pageSize, priority, diagnostics))
+      );
+      if (generation !== this.generation) {
+        throw createAbortError();
+      }
+
+      const candidates = this.cursors.filter(cursor => cursor.buffer.length > 0);
+      if (candidates.length === 0) {
+        break;
+      }
+
+      const newest = candidates.reduce((best, cursor) =>
+        comparePostsByDate(cursor.buffer[0], best.buffer[0]) < 0 ? cursor : best
+      );
+      posts.push(newest.buffer.shift()!);
+    }
+
+    const failed = this.cursors.filter(cursor => cursor.error);
+    if (this.pages.length === 0 && posts.length === 0 && failed.length > 0 && failed.length === this.cursors.length) {
+      throw new Error(`All sources failed to load: ${failed.map(cursor => `${cursor.child.label} (${cursor.error})`).join(', ')}`);
+    }
+
+    return {
+      posts,
+      hasMore: this.cursors.some(cursor => cursor.buffer.length > 0 || cursor.hasMore),
+      diagnostics,
+    };
+  }
+
+  async checkForNewPosts(): Promise<Post[]> {
+    const results = await Promise.all(this.enabledChildren
+      .filter(child => child.source.checkForNewPosts)
+      .map(async child => {
+        try {
+          return (await child.source.checkForNewPosts!()).map(post => this.tagPost(child, post));
+        } catch (error) {
+          if (isAbortError(error)) {
+            throw error;
+          }
+          console.warn(`Failed to check ${child.label} for new posts:`, error);
+          return [];
+        }
+      }));
+
+    return results.flat().sort(comparePostsByDate);
+  }
+
+  async getFileContent(mergedPath: string): Promise<string> {
+    const { child, path } = this.fromMergedPath(mergedPath);
+    return child.source.getFileContent(path);
+  }
+
+  async getFileHistory(mergedPath: string): Promise<PostRevision[]> {
+    const { child, path } = this.fromMergedPath(mergedPath);
+    return child.source.getFileHistory ? child.source.getFileHistory(path) : [];
+  }
+
+  async getFileContentAt(mergedPath: string, revision: string): Promise<string | null> {
+    const { child, path } = this.fromMergedPath(mergedPath);
+    if (!child.source.getFileContentAt) {
+      throw new Error(`${child.label} does not keep revision history`);
+    }
+    return child.source.getFileContentAt(path, revision);
+  }
+
+  async validate(): Promise<boolean> {
+    const results = await Promise.all(this.enabledChildren.map(child => child.source.validate()));
+    return results.some(Boolean);
+  }
+
+  getStats(): PostSourceStats {
+    const stats = this.children.map(child => child.source.getStats());
+    const caches = stats.filter(entry => entry.cache).map(entry => entry.cache!);
+
+    return {
+      rateLimit: stats.find(entry => entry.rateLimit)?.rateLimit,
+      cache: caches.length > 0 ? {
+        size: caches.reduce((total, cache) => total + cache.size, 0),
+        entries: caches.flatMap(cache => cache.entries),
+      } : undefined,
+      queue: stats.find(entry => entry.queue)?.queue,
+    };
+  }
+
+  subscribeStats(listener: (stats: PostSourceStats) => void): () => void {
+    const unsubscribers = this.children
+      .filter(child => child.source.subscribeStats)
+      .map(child => child.source.subscribeStats!(() => listener(this.getStats())));
+    return () => unsubscribers.forEach(unsubscribe => unsubscribe());
+  }
+
+  subscribeChanges(listener: (change: PostChange) => void): () => void {
+    const unsubscribers = this.enabledChildren
+      .filter(child => child.source.subscribeChanges)
+      .map(child => child.source.subscribeChanges!(change => {
+        listener(change.type === 'remove'
+          ? { type: 'remove', path: this.toMergedPath(child, change.path) }
+          : { type: 'upsert', post: this.tagPost(child, change.post) });
+      }));
+    return () => unsubscribers.forEach(unsubscribe => unsubscribe());
+  }
+
+  clearCache(): void {
+    this.children.forEach(child => child.source.clearCache());
+  }
+
+  clearExpiredCache(): number {
+    return this.children.reduce((total, child) => total + child.source.clearExpiredCache(), 0);
+  }
+
+  cancel(): void {
+    this.children.forEach(child => child.source.cancel());
+    // Cursors may have been left mid-page, so the next request starts over
+    this.reset(this.pageSize);
+  }
+}
@@ -0,0 +1,204 @@
+import { FeedConfig, PostFileEntry, PostsPage } from '@/types/post';
+import { PostSource, PostSourceCapabilities, PostSourceStats } from '@/types/source';
+import { isAbortError } from '../fetch-scheduler';
+import { isPostFile, sortPostFiles, loadPostsPage } from '../post-files';
+import { toSnapshotTimestamp } from '../config';
+
+export class GitHostAPIError extends Error {
+  constructor(message: string, public status?: number) {
+    super(message);
+    this.name = 'GitHostAPIError';
+  }
+}
+
+interface CacheEntry {
+  data: any;
+  next?: string;
+  timestamp: number;
+}
+
+// Shared HTTP, caching and pagination logic for self-hostable git forges (GitLab, Gitea)
+export abstract class GitHostSource implements PostSource {
+  abstract readonly id: string;
+  abstract readonly label: string;
+  readonly capabilities: PostSourceCapabilities = {
+    mode: 'remote',
+    rateLimited: false,
+    cache: true,
+    preload: true,
+    refs: true,
+    watch: false,
+    history: false,
+  };
+  protected config: FeedConfig;
+  private cache: Map<string, CacheEntry> = new Map();
+  private abortController: AbortController = new AbortController();
+  private snapshotCommit: Promise<string> | null = null;
+  private readonly CACHE_DURATION = 5 * 60 * 1000; // 5 minutes
+  private readonly LONG_CACHE_DURATION = 30 * 60 * 1000; // 30 minutes for file content
+
+  constructor(config: FeedConfig) {
+    this.config = config;
+  }
+
+  protected abstract getAuthHeaders(): Record<string, string>;
+  protected abstract getRepositoryApiUrl(): string;
+  protected abstract listFiles(path: string): Promise<PostFileEntry[]>;
+  protected abstract getRawFileUrl(path: string): Promise<string>;
+  // SHA of the last commit on the configured ref at or before `until`, or null when there is none
+  protected abstract findCommitBefore(until: string): Promise<string | null>;
+
+  // Defaults to the origin of the repository URL; override it to point at a mirror or a mock server
+  protected get baseUrl(): string {
+    const base = this.config.baseUrl || new URL(this.config.repositoryUrl).origin;
+    return base.replace(/\/+$/, '');
+  }
+
+  private async request(url: string, cacheDuration: number, format: 'json' | 'text'): Promise<CacheEntry> {
+    const cached = this.cache.get(url);
+    if (cached && Date.now() - cached.timestamp < cacheDuration) {
+      return cached;
+    }
+
+    let response: Response;
+    try {
+      response = await fetch(url, {
+        headers: {
+          'Accept': format === 'json' ? 'application/json' : 'text/plain',
+          ...this.getAuthHeaders(),
+        },
+        signal: this.abortController.signal,
+      });
+    } catch (error) {
+      if (isAbortError(error)) {
+        throw error;
+      }
+      throw new GitHostAPIError(`Network error: ${error instanceof Error ? error.message : 'Unknown error'}`);
+    }
+
+    if (!response.ok) {
+      if (response.status === 404) {
+        throw new GitHostAPIError('Repository or path not found', 404);
+      } else if (response.status === 401 || response.status === 403) {
+        throw new GitHostAPIError('Access forbidden, check the access token', response.status);
+      }
+      throw new GitHostAPIError(`${this.label} API error: ${response.statusText}`, response.status);
+    }
+
+    const entry: CacheEntry = {
+      data: format === 'json' ? await response.json() : await response.text(),
+      next: parseNextLink(response.headers.get('Link')),
+      timestamp: Date.now(),
+    };
+    this.cache.set(url, entry);
+
+    return entry;
+  }
+
+  // The commit a point-in-time snapshot reads from; resolved once, since past commits don't move
+  protected getSnapshotCommit(): Promise<string> | null {
+    if (!this.config.asOf) {
+      return null;
+    }
+    if (!this.snapshotCommit) {
+      const commit = this.findCommitBefore(toSnapshotTimestamp(this.config.asOf)).then(sha => {
+        if (!sha) {
+          throw new GitHostAPIError('No commits found before the selected date', 404);
+        }
+        return sha;
+      });
+      this.snapshotCommit = commit;
+      commit.catch(() => {
+        if (this.snapshotCommit === commit) this.snapshotCommit = null;
+      });
+    }
+    return this.snapshotCommit;
+  }
+
+  protected async requestJSON<T>(url: string): Promise<{ data: T; next?: string }> {
+    const { data, next } = await this.request(url, this.CACHE_DURATION, 'json');
+    return { data, next };
+  }
+
+  async getPosts(page: number = 1, pageSize: number = 10): Promise<PostsPage> {
+    try {
+      const files = await this.listFiles(this.config.postsPath.split('/').filter(Boolean).join('/'));
+      const mdxFiles = sortPostFiles(files.filter(isPostFile));
+
+      return await loadPostsPage(
+        mdxFiles,
+        page,
+        pageSize,
+        file => this.getFileContent(file.path),
+        { concurrency: this.config.concurrency, signal: this.abortController.signal }
+      );
+    } catch (error) {
+      if (error instanceof GitHostAPIError || isAbortError(error)) {
+        throw error;
+      }
+      throw new GitHostAPIError(`Error fetching posts: ${error instanceof Error ? error.message : 'Unknown error'}`);
+    }
+  }
+
+  async getFileContent(path: string): Promise<string> {
+    const { data } = await this.request(await this.getRawFileUrl(path), this.LONG_CACHE_DURATION, 'text');
+    return data;
+  }
+
+  async validate(): Promise<boolean> {
+    try {
+      await this.requestJSON(this.getRepositoryApiUrl());
+      return true;
+    } catch (error) {
+      return false;
+    }
+  }
+
+  getStats(): PostSourceStats {
+    const entries = Array.from(this.cache.entries()).map(([url, entry]) => ({
+      url,
+      age: Date.now() - entry.timestamp,
+      hasEtag: false,
+    }));
+
+    return {
+      cache: {
+        size: this.cache.size,
+        entries,
+      },
+    };
+  }
+
+  clearCache(): void {
+    this.cache.clear();
+    this.snapshotCommit = null;
+  }
+
+  clearExpiredCache(): number {
+    const now = Date.now();
+    let cleared = 0;
+
+    for (const [url, entry] of this.cache.entries()) {
+      if (now - entry.timestamp > this.LONG_CACHE_DURATION) {
+        this.cache.delete(url);
+        cleared++;
+      }
+    }
+
+    return cleared;
+  }
+
+  cancel(): void {
+    this.abortController.abort();
+    this.abortController = new AbortController();
+  }
+}
+
+function parseNextLink(header: string | null): string | undefined {
+  if (!header) {
+    return undefined;
+  }
+
+  const match = header.split(',').map(part => part.match(/<([^>]+)>;\s*rel="next"/)).find(Boolean);
+  return match ? match[1] : undefined;
+}
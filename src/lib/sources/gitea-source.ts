@@ -0,0 +1,74 @@
+import { GiteaTreeResponse, PostFileEntry } from '@/types/post';
+import { GitHostSource } from './git-host-source';
+
+export class GiteaSource extends GitHostSource {
+  readonly id = 'gitea';
+  readonly label = 'Gitea';
+
+  private get repoApiUrl(): string {
+    return `${this.baseUrl}/api/v1/repos/${this.config.owner}/${this.config.repo}`;
+  }
+
+  protected getAuthHeaders(): Record<string, string> {
+    return this.config.token ? { 'Authorization': `token ${this.config.token}` } : {};
+  }
+
+  protected getRepositoryApiUrl(): string {
+    return this.repoApiUrl;
+  }
+
+  private async getBranch(): Promise<string> {
+    if (this.config.ref) {
+      return this.config.ref;
+    }
+
+    const { data } = await this.requestJSON<{ default_branch: string }>(this.repoApiUrl);
+    return data.default_branch;
+  }
+
+  private async getRef(): Promise<string> {
+    return (await this.getSnapshotCommit()) || this.getBranch();
+  }
+
+  protected async findCommitBefore(until: string): Promise<string | null> {
+    const params = new URLSearchParams({ sha: await this.getBranch(), until, limit: '1', stat: 'false', files: 'false' });
+    const { data } = await this.requestJSON<Array<{ sha: string }>>(`${this.repoApiUrl}/commits?${params.toString()}`);
+    return data[0]?.sha || null;
+  }
+
+  protected async listFiles(path: string): Promise<PostFileEntry[]> {
+    const ref = encodeURIComponent(await this.getRef());
+    const prefix = path ? `${path}/` : '';
+    const files: PostFileEntry[] = [];
+    let fetched = 0;
+
+    // Gitea paginates recursive trees and reports the total entry count in the body
+    for (let page = 1; ; page++) {
+      const { data } = await this.requestJSON<GiteaTreeResponse>(
+        `${this.repoApiUrl}/git/trees/${ref}?recursive=true&per_page=1000&page=${page}`
+      );
+
+      fetched += data.tree.length;
+      files.push(...data.tree
+        .filter(entry => entry.type === 'blob' && entry.path.startsWith(prefix))
+        .map(entry => ({
+          name: entry.path.split('/').pop() || entry.path,
+          path: entry.path,
+          sha: entry.sha,
+          size: entry.size || 0,
+        })));
+
+      if (data.tree.length === 0 || fetched >= data.total_count) {
+        break;
+      }
+    }
+
+    return files;
+  }
+
+  protected async getRawFileUrl(path: string): Promise<string> {
+    const ref = encodeURIComponent(await this.getRef());
+    const encodedPath = path.split('/').map(encodeURIComponent).join('/');
+    return `${this.repoApiUrl}/raw/${encodedPath}?ref=${ref}`;
+  }
+}
@@ -0,0 +1,73 @@
+import { FeedConfig, Post, PostRevision, PostsPage } from '@/types/post';
+import { PostSource, PostSourceCapabilities, PostSourceStats } from '@/types/source';
+import { GitHubAPI } from '../github-api';
+import { RequestPriority } from '../request-queue';
+
+export class GitHubSource implements PostSource {
+  readonly id = 'github';
+  readonly label = 'GitHub';
+  readonly capabilities: PostSourceCapabilities;
+  private api: GitHubAPI;
+
+  constructor(config: FeedConfig) {
+    this.api = new GitHubAPI(config);
+    this.capabilities = {
+      mode: 'remote',
+      rateLimited: true,
+      cache: true,
+      preload: true,
+      refs: true,
+      // A snapshot of a past date never gets new posts
+      watch: !config.asOf,
+      history: true,
+    };
+  }
+
+  getPosts(page: number, pageSize: number, priority: RequestPriority = 'user'): Promise<PostsPage> {
+    return this.api.getPosts(page, pageSize, priority);
+  }
+
+  checkForNewPosts(): Promise<Post[]> {
+    return this.api.getNewPosts();
+  }
+
+  getFileContent(path: string): Promise<string> {
+    return this.api.getFileContent(path);
+  }
+
+  getFileHistory(path: string): Promise<PostRevision[]> {
+    return this.api.getFileHistory(path);
+  }
+
+  getFileContentAt(path: string, revision: string): Promise<string | null> {
+    return this.api.getFileContentAt(path, revision);
+  }
+
+  validate(): Promise<boolean> {
+    return this.api.validateRepository();
+  }
+
+  getStats(): PostSourceStats {
+    return {
+      rateLimit: this.api.getRateLimitInfo(),
+      cache: this.api.getCacheInfo(),
+      queue: this.api.getQueueState(),
+    };
+  }
+
+  subscribeStats(listener: (stats: PostSourceStats) => void): () => void {
+    return this.api.subscribeQueue(() => listener(this.getStats()));
+  }
+
+  clearCache(): void {
+    this.api.clearCache();
+  }
+
+  clearExpiredCache(): number {
+    return this.api.clearExpiredCache();
+  }
+
+  cancel(): void {
+    this.api.cancel();
+  }
+}
@@ -0,0 +1,64 @@
+import { GitLabTreeEntry, PostFileEntry } from '@/types/post';
+import { GitHostSource } from './git-host-source';
+
+export class GitLabSource extends GitHostSource {
+  readonly id = 'gitlab';
+  readonly label = 'GitLab';
+
+  private get projectApiUrl(): string {
+    // Projects are addressed by their URL-encoded full path, which may include nested groups
+    const projectPath = encodeURIComponent(`${this.config.owner}/${this.config.repo}`);
+    return `${this.baseUrl}/api/v4/projects/${projectPath}`;
+  }
+
+  protected getAuthHeaders(): Record<string, string> {
+    return this.config.token ? { 'PRIVATE-TOKEN': this.config.token } : {};
+  }
+
+  protected getRepositoryApiUrl(): string {
+    return this.projectApiUrl;
+  }
+
+  private async getRef(): Promise<string | undefined> {
+    return (await this.getSnapshotCommit()) || this.config.ref;
+  }
+
+  protected async findCommitBefore(until: string): Promise<string | null> {
+    const params = new URLSearchParams({ until, per_page: '1' });
+    if (this.config.ref) {
+      params.set('ref_name', this.config.ref);
+    }
+    const { data } = await this.requestJSON<Array<{ id: string }>>(`${this.projectApiUrl}/repository/commits?${params.toString()}`);
+    return data[0]?.id || null;
+  }
+
+  protected async listFiles(path: string): Promise<PostFileEntry[]> {
+    const params = new URLSearchParams({ recursive: 'true', per_page: '100', pagination: 'keyset' });
+    if (path) {
+      params.set('path', path);
+    }
+    const ref = await this.getRef();
+    if (ref) {
+      params.set('ref', ref);
+    }
+
+    const files: PostFileEntry[] = [];
+    let url: string | undefined = `${this.projectApiUrl}/repository/tree?${params.toString()}`;
+
+    // Keyset pagination hands out the next page through the Link header
+    while (url) {
+      const { data, next }: { data: GitLabTreeEntry[]; next?: string } = await this.requestJSON<GitLabTreeEntry[]>(url);
+      files.push(...data
+        .filter(entry => entry.type === 'blob')
+        .map(entry => ({ name: entry.name, path: entry.path, sha: entry.id, size: 0 })));
+      url = next;
+    }
+
+    return files;
+  }
+
+  protected async getRawFileUrl(path: string): Promise<string> {
+    const ref = encodeURIComponent((await this.getRef()) || 'HEAD');
+    return `${this.projectApiUrl}/repository/files/${encodeURIComponent(path)}/raw?ref=${ref}`;
+  }
+}
@@ -0,0 +1,148 @@
+import { FeedConfig } from '@/types/post';
+import { PostSource, PostSourceDefinition } from '@/types/source';
+import { RepositoryHost, detectRepositoryHost } from '../config';
+import { AggregateSource, FeedSourceEntry, PRIMARY_SOURCE_ID } from './aggregate-source';
+import { GitHubSource } from './github-source';
+import { GitLabSource } from './gitlab-source';
+import { GiteaSource } from './gitea-source';
+import { LocalSource } from './local-source';
+import { LocalApiSource } from './local-api-source';
+
+export const AUTO_SOURCE = 'auto';
+const DEFAULT_SOURCE = 'github';
+
+const registry: Map<string, PostSourceDefinition> = new Map();
+
+export function registerPostSource(definition: PostSourceDefinition): void {
+  registry.set(definition.id, definition);
+}
+
+export function getPostSourceDefinitions(): PostSourceDefinition[] {
+  return Array.from(registry.values());
+}
+
+export function resolvePostSourceId(config: FeedConfig): string {
+  if (config.source && config.source !== AUTO_SOURCE) {
+    return config.source;
+  }
+
+  const detected = getPostSourceDefinitions().find(definition => definition.detect?.());
+  return detected ? detected.id : DEFAULT_SOURCE;
+}
+
+// The main repository plus any additional sources, each with its own single-source config
+export function getFeedSources(config: FeedConfig): FeedSourceEntry[] {
+  const { sources = [], disabledSources = [], ...primaryConfig } = config;
+  const primarySourceId = resolvePostSourceId(primaryConfig);
+
+  const primary: FeedSourceEntry = {
+    id: PRIMARY_SOURCE_ID,
+    label: primarySourceId === 'local' ? 'Local posts' : `${config.owner}/${config.repo}`,
+    enabled: !disabledSources.includes(PRIMARY_SOURCE_ID),
+    config: primaryConfig,
+  };
+
+  return [primary, ...sources.map(entry => {
+    // Additional sources never fall back to local mode, so auto-detection only looks at the URL
+    const source = entry.source && entry.source !== AUTO_SOURCE
+      ? entry.source
+      : detectRepositoryHost(entry.repositoryUrl)?.source || DEFAULT_SOURCE;
+
+    return {
+      id: entry.id,
+      label: entry.label || `${entry.owner}/${entry.repo}`,
+      enabled: !disabledSources.includes(entry.id),
+      config: {
+        source,
+        repositoryUrl: entry.repositoryUrl,
+        baseUrl: entry.baseUrl,
+        owner: entry.owner,
+        repo: entry.repo,
+        postsPath: entry.postsPath,
+        ref: entry.ref,
+        asOf: config.asOf,
+        concurrency: config.concurrency,
+        // Only one token is stored, so it is shared with sources on the same kind of host
+        token: source === primarySourceId ? config.token : undefined,
+      },
+    };
+  })];
+}
+
+export function createPostSource(config: FeedConfig): PostSource {
+  if (config.sources && config.sources.length > 0) {
+    return new AggregateSource(
+      getFeedSources(config).map(entry => ({ ...entry, source: createSingleSource(entry.config) }))
+    );
+  }
+
+  return createSingleSource(config);
+}
+
+function createSingleSource(config: FeedConfig): PostSource {
+  const id = resolvePostSourceId(config);
+  const definition = registry.get(id);
+
+  if (!definition) {
+    throw new Error(`Unknown post source: ${id}`);
+  }
+
+  return definition.create(config);
+}
+
+// The server reads the folder directly; browsers go through the /api/posts routes
+registerPostSource({
+  id: 'local',
+  label: 'Local filesystem',
+  create: config => typeof window === 'undefined' ? new LocalSource(config) : new LocalApiSource(config),
+  detect: () => typeof window === 'undefined'
+    ? LocalSource.isAvailable()
+    : process.env.NEXT_PUBLIC_LOCAL_POSTS_AVAILABLE === 'true',
+});
+
+// Asks a self-hosted server which forge it runs when the hostname doesn't tell
+export async function probeRepositoryHost(baseUrl: string): Promise<RepositoryHost | null> {
+  const base = baseUrl.replace(/\/+$/, '');
+
+  try {
+    const gitea = await fetch(`${base}/api/v1/version`);
+    if (gitea.ok && 'version' in await gitea.json()) {
+      return 'gitea';
+    }
+  } catch {
+    // Not a Gitea server or not reachable from the browser
+  }
+
+  try {
+    // GitLab answers 401 here for anonymous requests, which still identifies it
+    const gitlab = await fetch(`${base}/api/v4/version`);
+    if (gitlab.ok || gitlab.status === 401) {
+      return 'gitlab';
+    }
+  } catch {
+    // Not a GitLab server or not reachable from the browser
+  }
+
+  return null;
+}
+
+registerPostSource({
+  id: 'github',
+  label: 'GitHub',
+  create: config => new GitHubSource(config),
+});
+
+registerPostSource({
+  id: 'gitlab',
+  label: 'GitLab',
+  create: config => new GitLabSource(config),
+});
+
+registerPostSource({
+  id: 'gitea',
+  label: 'Gitea',
+  create: config => new GiteaSource(config),
+});
+
+export { GitHubSource, GitLabSource, GiteaSource, LocalSource, LocalApiSource, AggregateSource, PRIMARY_SOURCE_ID };
+export type { FeedSourceEntry };
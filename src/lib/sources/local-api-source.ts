@@ -0,0 +1,99 @@
+import { FeedConfig, PostsPage } from '@/types/post';
+import { PostChange, PostSource, PostSourceCapabilities, PostSourceStats } from '@/types/source';
+import { isAbortError } from '../fetch-scheduler';
+import { LocalSourceError } from './local-source';
+
+const LOCAL_API_BASE = '/api/posts';
+
+// Browser counterpart of LocalSource: reads the server's posts folder through the API routes
+export class LocalApiSource implements PostSource {
+  readonly id = 'local';
+  readonly label = 'Local filesystem';
+  readonly capabilities: PostSourceCapabilities = {
+    mode: 'local',
+    rateLimited: false,
+    cache: false,
+    preload: false,
+    refs: false,
+    watch: false,
+    history: false,
+  };
+  private config: FeedConfig;
+  private abortController: AbortController = new AbortController();
+
+  constructor(config: FeedConfig) {
+    this.config = config;
+  }
+
+  private async request(url: string): Promise<Response> {
+    let response: Response;
+    try {
+      response = await fetch(url, { signal: this.abortController.signal });
+    } catch (error) {
+      if (isAbortError(error)) {
+        throw error;
+      }
+      throw new LocalSourceError(`Network error: ${error instanceof Error ? error.message : 'Unknown error'}`);
+    }
+
+    if (!response.ok) {
+      const body = await response.json().catch(() => ({}));
+      throw new LocalSourceError(body.error || `Local API error: ${response.statusText}`, response.status);
+    }
+
+    return response;
+  }
+
+  async getPosts(page: number = 1, pageSize: number = 10): Promise<PostsPage> {
+    const params = new URLSearchParams({ page: String(page), pageSize: String(pageSize) });
+    if (this.config.concurrency) {
+      params.set('concurrency', String(this.config.concurrency));
+    }
+
+    const response = await this.request(`${LOCAL_API_BASE}?${params.toString()}`);
+    return response.json();
+  }
+
+  async getFileContent(path: string): Promise<string> {
+    const encodedPath = path.split('/').filter(Boolean).map(encodeURIComponent).join('/');
+    const response = await this.request(`${LOCAL_API_BASE}/${encodedPath}`);
+    return response.text();
+  }
+
+  async validate(): Promise<boolean> {
+    try {
+      const { posts } = await this.getPosts(1, 1);
+      return posts.length > 0;
+    } catch (error) {
+      return false;
+    }
+  }
+
+  // The server pushes changes to the posts folder; EventSource reconnects on its own after drops
+  subscribeChanges(listener: (change: PostChange) => void): () => void {
+    const events = new EventSource(`${LOCAL_API_BASE}/events`);
+    events.onmessage = event => {
+      try {
+        listener(JSON.parse(event.data) as PostChange);
+      } catch (error) {
+        console.warn('Ignoring malformed post change:', error);
+      }
+    };
+    return () => events.close();
+  }
+
+  getStats(): PostSourceStats {
+    return {};
+  }
+
+  clearCache(): void {}
+
+  clearExpiredCache(): number {
+    return 0;
+  }
+
+  cancel(): void {
+    this.abortController.abort();
+    this.abortController = new AbortController();
+  }
+}
@@ -0,0 +1,180 @@
+import { FeedConfig, PostsPage } from '@/types/post';
+import { PostChange, PostSource, PostSourceCapabilities, PostSourceStats } from '@/types/source';
+import { isAbortError } from '../fetch-scheduler';
+import { loadPostsPage } from '../post-files';
+import { PostIndexReader, parseIndexManifest, POSTS_INDEX_DIR, POSTS_INDEX_MANIFEST } from '../posts-index';
+import { getLocalPostsWatcher } from './local-watcher';
+// Dynamic imports for Node.js modules to avoid bundling in client-side code
+let fs: any = null;
+let path: any = null;
+
+// Only import these modules on the server side
+if (typeof window === 'undefined') {
+  try {
+    fs = require('fs');
+    path = require('path');
+  } catch (error) {
+    console.warn('Failed to import Node.js modules:', error);
+  }
+}
+
+export class LocalSourceError extends Error {
+  constructor(message: string, public status?: number) {
+    super(message);
+    this.name = 'LocalSourceError';
+  }
+}
+
+// LOCAL_POSTS_PATH points local mode at another folder, relative to the project root
+function getDefaultPostsPath(): string {
+  return fs && path ? path.resolve(process.cwd(), process.env.LOCAL_POSTS_PATH || 'posts') : '';
+}
+
+export class LocalSource implements PostSource {
+  readonly id = 'local';
+  readonly label = 'Local filesystem';
+  readonly capabilities: PostSourceCapabilities = {
+    mode: 'local',
+    rateLimited: false,
+    cache: false,
+    preload: false,
+    refs: false,
+    watch: false,
+    history: false,
+  };
+  private config: FeedConfig;
+  private localPostsPath: string;
+  private abortController: AbortController = new AbortController();
+
+  constructor(config: FeedConfig) {
+    this.config = config;
+    this.localPostsPath = getDefaultPostsPath();
+  }
+
+  // Local mode is available when the posts folder exists (server side only)
+  static isAvailable(): boolean {
+    if (typeof window !== 'undefined' || !fs || !path) {
+      return false;
+    }
+
+    try {
+      const postsPath = getDefaultPostsPath();
+      return fs.existsSync(postsPath) && fs.statSync(postsPath).isDirectory();
+    } catch (error) {
+      console.log('Error checking local mode:', error);
+      return false;
+    }
+  }
+
+  private async getPostIndex(): Promise<PostIndexReader | null> {
+    const indexPath = path.join(this.localPostsPath, POSTS_INDEX_DIR);
+    const manifestPath = path.join(indexPath, POSTS_INDEX_MANIFEST);
+    if (!fs.existsSync(manifestPath)) {
+      return null;
+    }
+
+    const manifest = parseIndexManifest(await fs.promises.readFile(manifestPath, 'utf-8'));
+    if (!manifest) {
+      return null;
+    }
+
+    return new PostIndexReader(manifest, 'posts', name => fs.promises.readFile(path.join(indexPath, name), 'utf-8'));
+  }
+
+  async getPosts(page: number = 1, pageSize: number = 10): Promise<PostsPage> {
+    if (!fs || !path) {
+      throw new Error('File system modules not available');
+    }
+
+    try {
+      // The watcher keeps the listing current, so pages don't re-read the directory
+      const watcher = getLocalPostsWatcher(this.localPostsPath);
+      const files = watcher.getFiles();
+      const index = await this.getPostIndex();
+
+      return await loadPostsPage(
+        files,
+        page,
+        pageSize,
+        file => watcher.readFile(file),
+        { concurrency: this.config.concurrency, signal: this.abortController.signal, index }
+      );
+    } catch (error) {
+      if (isAbortError(error)) {
+        throw error;
+      }
+      console.error('Error reading local posts:', error);
+      throw new Error(`Error reading local posts: ${error instanceof Error ? error.message : 'Unknown error'}`);
+    }
+  }
+
+  async getFileContent(filePath: string): Promise<string> {
+    if (!fs || !path) {
+      throw new Error('File system modules not available');
+    }
+
+    // Handle both absolute and relative paths
+    let fullPath: string;
+    if (path.isAbsolute(filePath)) {
+      fullPath = path.resolve(filePath);
+    } else {
+      // Remove 'posts/' prefix if present since we're already in the posts directory
+      const relativePath = filePath.startsWith('posts/') ? filePath.substring(6) : filePath;
+      fullPath = path.resolve(this.localPostsPath, relativePath);
+    }
+
+    // Paths can come from HTTP requests, so never read outside the posts directory
+    if (!fullPath.startsWith(`${this.localPostsPath}${path.sep}`)) {
+      throw new LocalSourceError('Path is outside the posts directory', 400);
+    }
+
+    if (!fs.existsSync(fullPath)) {
+      throw new LocalSourceError('Post not found', 404);
+    }
+
+    try {
+      return await fs.promises.readFile(fullPath, 'utf-8');
+    } catch (error) {
+      console.error('Error reading local file:', error);
+      throw new Error(`Error reading local file: ${error instanceof Error ? error.message : 'Unknown error'}`);
+    }
+  }
+
+  async validate(): Promise<boolean> {
+    if (!fs) {
+      return false;
+    }
+
+    try {
+      // Check if posts directory exists and has MDX files
+      if (!fs.existsSync(this.localPostsPath)) {
+        return false;
+      }
+
+      return getLocalPostsWatcher(this.localPostsPath).getFiles().length > 0;
+    } catch (error) {
+      console.error('Error validating local repository:', error);
+      return false;
+    }
+  }
+
+  subscribeChanges(listener: (change: PostChange) => void): () => void {
+    return getLocalPostsWatcher(this.localPostsPath).subscribe(listener);
+  }
+
+  getStats(): PostSourceStats {
+    // Reads go straight to the filesystem, there is no cache or rate limit to report
+    return {};
+  }
+
+  clearCache(): void {}
+
+  clearExpiredCache(): number {
+    return 0;
+  }
+
+  cancel(): void {
+    this.abortController.abort();
+    this.abortController = new AbortController();
+  }
+}
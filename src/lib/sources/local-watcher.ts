@@ -0,0 +1,242 @@
+import { PostChange } from '@/types/source';
+import { parseMDXContent } from '../mdx-parser';
+import { isPostFile, sortPostFiles } from '../post-files';
+// Dynamic imports for Node.js modules to avoid bundling in client-side code
+let fs: any = null;
+let path: any = null;
+
+// Only import these modules on the server side
+if (typeof window === 'undefined') {
+  try {
+    fs = require('fs');
+    path = require('path');
+  } catch (error) {
+    console.warn('Failed to import Node.js modules:', error);
+  }
+}
+
+// Editors often write a file in several steps, so wait for them to settle
+const CHANGE_DEBOUNCE = 100;
+// Contents of recently read posts; the rest are read from disk again when asked for
+const MAX_CACHED_CONTENTS = 500;
+
+export interface LocalPostFile {
+  name: string;
+  path: string;
+  fullPath: string;
+  modifiedAt?: number;
+}
+
+// Keeps an in-memory listing of a posts folder (including subfolders) in sync with the disk
+export class LocalPostsWatcher {
+  private files: Map<string, LocalPostFile> = new Map();
+  // Least recently used first, so the oldest entry is evicted when the cache is full
+  private contents: Map<string, { content: string; modifiedAt?: number }> = new Map();
+  private sortedFiles: LocalPostFile[] | null = null;
+  private listeners: Set<(change: PostChange) => void> = new Set();
+  private pending: Map<string, ReturnType<typeof setTimeout>> = new Map();
+  private watcher: any = null;
+  private started = false;
+
+  constructor(private rootPath: string) {}
+
+  // Posts keep the `posts/` prefix regardless of where the folder lives on disk
+  private toPostPath(fullPath: string): string {
+    return ['posts', ...path.relative(this.rootPath, fullPath).split(path.sep)].join('/');
+  }
+
+  private toFile(fullPath: string): LocalPostFile {
+    return {
+      name: path.basename(fullPath),
+      path: this.toPostPath(fullPath),
+      fullPath,
+      modifiedAt: fs.statSync(fullPath).mtimeMs,
+    };
+  }
+
+  private scanDirectory(dir: string): LocalPostFile[] {
+    const files: LocalPostFile[] = [];
+
+    for (const entry of fs.readdirSync(dir, { withFileTypes: true })) {
+      const fullPath = path.join(dir, entry.name);
+      if (entry.isDirectory()) {
+        files.push(...this.scanDirectory(fullPath));
+      } else if (entry.isFile()) {
+        const file = this.toFile(fullPath);
+        if (isPostFile(file)) {
+          files.push(file);
+        }
+      }
+    }
+
+    return files;
+  }
+
+  private rescan() {
+    this.files.clear();
+    this.contents.clear();
+    this.sortedFiles = null;
+    this.scanDirectory(this.rootPath).forEach(file => this.files.set(file.path, file));
+  }
+
+  private start() {
+    if (this.started) return;
+    this.started = true;
+    this.rescan();
+
+    try {
+      this.watcher = fs.watch(this.rootPath, { recursive: true }, (_event: string, fileName: string | null) => {
+        this.scheduleChange(fileName ? path.join(this.rootPath, fileName) : this.rootPath);
+      });
+      this.watcher.on('error', (error: Error) => {
+        console.warn('Stopped watching local posts:', error);
+        this.watcher?.close();
+        this.watcher = null;
+      });
+    } catch (error) {
+      // Without a watcher the listing is re-read on every request instead
+      console.warn('Failed to watch local posts, changes will not be pushed:', error);
+      this.watcher = null;
+    }
+  }
+
+  private scheduleChange(fullPath: string) {
+    clearTimeout(this.pending.get(fullPath));
+    this.pending.set(fullPath, setTimeout(() => {
+      this.pending.delete(fullPath);
+      this.handleChange(fullPath).catch(error => {
+        console.warn(`Failed to process change to ${fullPath}:`, error);
+      });
+    }, CHANGE_DEBOUNCE));
+  }
+
+  private async handleChange(fullPath: string) {
+    const stats = await fs.promises.stat(fullPath).catch(() => null);
+
+    if (!stats) {
+      // A deleted file, or a whole folder that was removed or moved away
+      this.removeUnder(fullPath);
+      return;
+    }
+
+    if (stats.isDirectory()) {
+      const found = this.scanDirectory(fullPath);
+      const foundPaths = new Set(found.map(file => file.path));
+      this.removeUnder(fullPath, foundPaths);
+      for (const file of found) {
+        if (!this.files.has(file.path)) {
+          await this.updateFile(file);
+        }
+      }
+      return;
+    }
+
+    const file = this.toFile(fullPath);
+    if (isPostFile(file)) {
+      await this.updateFile(file);
+    }
+  }
+
+  private async updateFile(file: LocalPostFile) {
+    const content = await fs.promises.readFile(file.fullPath, 'utf-8');
+    const previous = this.contents.get(file.path)?.content;
+    if (this.files.has(file.path) && previous === content) {
+      return;
+    }
+
+    if (!this.files.has(file.path)) {
+      this.sortedFiles = null;
+    }
+    this.files.set(file.path, file);
+    this.cacheContent(file, content);
+
+    const post = parseMDXContent(content, file.name, file.path);
+    if (post) {
+      this.emit({ type: 'upsert', post });
+    } else {
+      console.warn(`Failed to parse changed post ${file.path}`);
+    }
+  }
+
+  private removeUnder(fullPath: string, keep: Set<string> = new Set()) {
+    const postPath = this.toPostPath(fullPath);
+    for (const filePath of Array.from(this.files.keys())) {
+      if ((filePath === postPath || filePath.startsWith(`${postPath}/`)) && !keep.has(filePath)) {
+        this.files.delete(filePath);
+        this.contents.delete(filePath);
+        this.sortedFiles = null;
+        this.emit({ type: 'remove', path: filePath });
+      }
+    }
+  }
+
+  // A cached copy only counts while the file's mtime is the one it was read at
+  private getCachedContent(file: LocalPostFile): string | undefined {
+    const cached = this.contents.get(file.path);
+    if (!cached || cached.modifiedAt !== file.modifiedAt) {
+      return undefined;
+    }
+    this.contents.delete(file.path);
+    this.contents.set(file.path, cached);
+    return cached.content;
+  }
+
+  private cacheContent(file: LocalPostFile, content: string) {
+    this.contents.delete(file.path);
+    this.contents.set(file.path, { content, modifiedAt: file.modifiedAt });
+    while (this.contents.size > MAX_CACHED_CONTENTS) {
+      this.contents.delete(this.contents.keys().next().value!);
+    }
+  }
+
+  private emit(change: PostChange) {
+    this.listeners.forEach(listener => listener(change));
+  }
+
+  getFiles(): LocalPostFile[] {
+    this.start();
+    if (!this.watcher) {
+      this.rescan();
+    }
+    if (!this.sortedFiles) {
+      this.sortedFiles = sortPostFiles(Array.from(this.files.values()));
+    }
+    return this.sortedFiles;
+  }
+
+  async readFile(file: LocalPostFile): Promise<string> {
+    const cached = this.getCachedContent(file);
+    if (cached !== undefined) {
+      return cached;
+    }
+
+    const content = await fs.promises.readFile(file.fullPath, 'utf-8');
+    if (this.files.has(file.path)) {
+      this.cacheContent(file, content);
+    }
+    return content;
+  }
+
+  subscribe(listener: (change: PostChange) => void): () => void {
+    this.start();
+    this.listeners.add(listener);
+    return () => {
+      this.listeners.delete(listener);
+    };
+  }
+}
+
+// One watcher per folder for the whole server process; kept on globalThis so dev reloads reuse it
+const globalWatchers = globalThis as typeof globalThis & { __localPostsWatchers?: Map<string, LocalPostsWatcher> };
+
+export function getLocalPostsWatcher(rootPath: string): LocalPostsWatcher {
+  if (!globalWatchers.__localPostsWatchers) {
+    globalWatchers.__localPostsWatchers = new Map();
+  }
+  let watcher = globalWatchers.__localPostsWatchers.get(rootPath);
+  if (!watcher) {
+    watcher = new LocalPostsWatcher(rootPath);
+    globalWatchers.__localPostsWatchers.set(rootPath, watcher);
+  }
+  return watcher;
+}
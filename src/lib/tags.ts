@@ -0,0 +1,63 @@
+import { Post } from '@/types/post';
+
+export interface TagCount {
+  tag: string;
+  count: number;
+}
+
+// `#` at the start of a word followed by letters (any script, including combining marks), digits or `_`.
+// Requiring a letter keeps `#1` and the `#` in `C#` as plain text.
+export const HASHTAG_PATTERN = /(^|[\s(])#([\p{L}\p{M}\p{N}_]*\p{L}[\p{L}\p{M}\p{N}_]*)/gu;
+
+// Tags are compared case-insensitively, with precomposed and decomposed diacritics treated the same
+export function normalizeTag(tag: string): string {
+  return tag.replace(/^#/, '').normalize('NFC').toLocaleLowerCase();
+}
+
+export function tagHref(tag: string): string {
+  return `/tag/${encodeURIComponent(normalizeTag(tag))}`;
+}
+
+// Adds tags not already present, keeping the first spelling seen
+export function mergeTags(tags: string[], extra: string[]): string[] {
+  const seen = new Set(tags.map(normalizeTag));
+  const merged = [...tags];
+  for (const tag of extra) {
+    const key = normalizeTag(tag);
+    if (key && !seen.has(key)) {
+      seen.add(key);
+      merged.push(tag.replace(/^#/, '').normalize('NFC'));
+    }
+  }
+  return merged;
+}
+
+// Frontmatter `tags` may be a list or a comma separated string
+export function parseFrontmatterTags(value: unknown): string[] {
+  const tags = Array.isArray(value) ? value : typeof value === 'string' ? value.split(',') : [];
+  return tags
+    .filter((tag): tag is string => typeof tag === 'string')
+    .map(tag => tag.trim())
+    .filter(Boolean);
+}
+
+export function hasTag(post: Post, tag: string): boolean {
+  const key = normalizeTag(tag);
+  return (post.metadata.tags || []).some(postTag => normalizeTag(postTag) === key);
+}
+
+export function countTags(posts: Post[]): TagCount[] {
+  const counts = new Map<string, TagCount>();
+  for (const post of posts) {
+    for (const tag of post.metadata.tags || []) {
+      const key = normalizeTag(tag);
+      const entry = counts.get(key);
+      if (entry) {
+        entry.count++;
+      } else {
+        counts.set(key, { tag: key, count: 1 });
+      }
+    }
+  }
+  return Array.from(counts.values()).sort((a, b) => b.count - a.count || a.tag.localeCompare(b.tag));
+}
@@ -0,0 +1,82 @@
+export type ResolvedVideo =
+  | { kind: 'file'; src: string; mimeType: string }
+  | { kind: 'embed'; provider: 'YouTube' | 'Facebook'; embedUrl: string };
+
+const VIDEO_FILE_TYPES: Record<string, string> = {
+  mp4: 'video/mp4',
+  m4v: 'video/mp4',
+  webm: 'video/webm',
+  ogv: 'video/ogg',
+};
+
+const YOUTUBE_ID = /^[\w-]{11}$/;
+
+// Seconds from `t=90`, `t=1m30s` or `start=90`
+function parseStartTime(value: string | null): number {
+  if (!value) return 0;
+  const match = value.match(/^(?:(\d+)h)?(?:(\d+)m)?(?:(\d+)s?)?$/);
+  if (!match) return 0;
+  const [, hours, minutes, seconds] = match;
+  return (parseInt(hours || '0') * 60 + parseInt(minutes || '0')) * 60 + parseInt(seconds || '0');
+}
+
+function youTubeId(url: URL): string | null {
+  const host = url.hostname.replace(/^(www|m|music)\./, '');
+  let id: string | null = null;
+
+  if (host === 'youtu.be') {
+    id = url.pathname.split('/')[1] || null;
+  } else if (host === 'youtube.com' || host === 'youtube-nocookie.com') {
+    const [, section, value] = url.pathname.split('/');
+    id = section === 'watch' ? url.searchParams.get('v') : ['embed', 'shorts', 'live', 'v'].includes(section) ? value : null;
+  }
+
+  return id && YOUTUBE_ID.test(id) ? id : null;
+}
+
+function isFacebookVideo(url: URL): boolean {
+  const host = url.hostname.replace(/^(www|m|web)\./, '');
+  if (host === 'fb.watch') {
+    return true;
+  }
+  return host === 'facebook.com' && (/\/videos\//.test(url.pathname) || /^\/(watch|reel)\b/.test(url.pathname));
+}
+
+// Works out how a video URL can be played; null means it can only be linked to
+export function resolveVideo(rawUrl: string): ResolvedVideo | null {
+  let url: URL;
+  try {
+    url = new URL(rawUrl);
+  } catch {
+    return null;
+  }
+  if (url.protocol !== 'https:' && url.protocol !== 'http:') {
+    return null;
+  }
+
+  const extension = url.pathname.split('.').pop()?.toLowerCase() || '';
+  if (VIDEO_FILE_TYPES[extension]) {
+    return { kind: 'file', src: url.toString(), mimeType: VIDEO_FILE_TYPES[extension] };
+  }
+
+  const id = youTubeId(url);
+  if (id) {
+    const start = parseStartTime(url.searchParams.get('t') || url.searchParams.get('start'));
+    // The no-cookie domain doesn't set tracking cookies until the video is played
+    return {
+      kind: 'embed',
+      provider: 'YouTube',
+      embedUrl: `https://www.youtube-nocookie.com/embed/${id}?autoplay=1${start ? `&start=${start}` : ''}`,
+    };
+  }
+
+  if (isFacebookVideo(url)) {
+    return {
+      kind: 'embed',
+      provider: 'Facebook',
+      embedUrl: `https://www.facebook.com/plugins/video.php?href=${encodeURIComponent(url.toString())}&show_text=false&autoplay=true`,
+    };
+  }
+
+  return null;
+}
@@ -0,0 +1,116 @@
+export interface DiffPart {
+  type: 'equal' | 'added' | 'removed';
+  text: string;
+}
+
+// Beyond this many edits a diff isn't readable anyway, so show a full replacement instead
+const MAX_EDIT_DISTANCE = 4000;
+
+// Words and the whitespace between them, so joining the tokens gives back the original text
+export function tokenizeWords(text: string): string[] {
+  return text.match(/\s+|[^\s]+/g) || [];
+}
+
+function pushPart(parts: DiffPart[], type: DiffPart['type'], text: string) {
+  if (!text) return;
+  const last = parts[parts.length - 1];
+  if (last && last.type === type) {
+    last.text += text;
+  } else {
+    parts.push({ type, text });
+  }
+}
+
+// Myers' O(ND) diff; trace[d] holds the furthest x for diagonals -d..d before step d
+function diffTokens(a: string[], b: string[]): DiffPart[] | null {
+  const n = a.length;
+  const m = b.length;
+  const max = Math.min(n + m, MAX_EDIT_DISTANCE);
+  let v = new Int32Array(3);
+  const trace: Int32Array[] = [];
+
+  for (let d = 0; d <= max; d++) {
+    const next = new Int32Array(2 * d + 3);
+    for (let k = -d; k <= d; k += 2) {
+      const down = k === -d || (k !== d && v[k - 1 + d] < v[k + 1 + d]);
+      let x = down ? v[k + 1 + d] : v[k - 1 + d] + 1;
+      let y = x - k;
+      while (x < n && y < m && a[x] === b[y]) {
+        x++;
+        y++;
+      }
+      next[k + d + 1] = x;
+
+      if (x >= n && y >= m) {
+        trace.push(v);
+        return backtrack(trace, a, b);
+      }
+    }
+    trace.push(v);
+    v = next;
+  }
+
+  return null;
+}
+
+function backtrack(trace: Int32Array[], a: string[], b: string[]): DiffPart[] {
+  const ops: Array<{ type: DiffPart['type']; token: string }> = [];
+  let x = a.length;
+  let y = b.length;
+
+  for (let d = trace.length - 1; d >= 0; d--) {
+    const v = trace[d];
+    const k = x - y;
+    const down = k === -d || (k !== d && v[k - 1 + d] < v[k + 1 + d]);
+    const prevK = down ? k + 1 : k - 1;
+    const prevX = d === 0 ? 0 : v[prevK + d];
+    const prevY = prevX - prevK;
+
+    while (x > prevX && y > prevY) {
+      ops.push({ type: 'equal', token: a[--x] });
+      y--;
+    }
+    if (d > 0) {
+      if (down) {
+        ops.push({ type: 'added', token: b[--y] });
+      } else {
+        ops.push({ type: 'removed', token: a[--x] });
+      }
+    }
+  }
+
+  const parts: DiffPart[] = [];
+  for (let i = ops.length - 1; i >= 0; i--) {
+    pushPart(parts, ops[i].type, ops[i].token);
+  }
+  return parts;
+}
+
+export function diffWords(before: string, after: string): DiffPart[] {
+  const a = tokenizeWords(before);
+  const b = tokenizeWords(after);
+
+  // Edits are usually local, so only the middle needs the full search
+  let start = 0;
+  while (start < a.length && start < b.length && a[start] === b[start]) start++;
+  let endA = a.length;
+  let endB = b.length;
+  while (endA > start && endB > start && a[endA - 1] === b[endB - 1]) {
+    endA--;
+    endB--;
+  }
+
+  const parts: DiffPart[] = [];
+  pushPart(parts, 'equal', a.slice(0, start).join(''));
+
+  const middle = diffTokens(a.slice(start, endA), b.slice(start, endB));
+  if (middle) {
+    middle.forEach(part => pushPart(parts, part.type, part.text));
+  } else {
+    pushPart(parts, 'removed', a.slice(start, endA).join(''));
+    pushPart(parts, 'added', b.slice(start, endB).join(''));
+  }
+
+  pushPart(parts, 'equal', a.slice(endA).join(''));
+  return parts;
+}
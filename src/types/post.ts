@@ -1,3 +1,8 @@
+export type ReactionType = 'like' | 'love' | 'care' | 'haha' | 'wow' | 'sad' | 'angry';
+
+// Counts per reaction type; types nobody used are left out
+export type ReactionBreakdown = Partial<Record<ReactionType, number>>;
+
 export interface PostMetadata {
   title: string;
   author: string;
@@ -6,7 +11,11 @@ export interface PostMetadata {
   feedName: string;
   feedType: string;
   postId: string;
+  // Total of all reactions, also when only the total is known
   reactions: number;
+  reactionBreakdown?: ReactionBreakdown;
+  // Hashtags and frontmatter tags, as written (see normalizeTag for comparisons)
+  tags?: string[];
 }
 
 export interface PostAttachment {
@@ -16,15 +25,92 @@ export interface PostAttachment {
   image?: string;
 }
 
+// A comment from the export; replies nest under the comment they answer
+export interface PostComment {
+  // Position in the thread, e.g. "2.1" for the first reply to the second comment
+  id: string;
+  author: string;
+  date?: string;
+  reactions?: number;
+  content: string;
+  replies: PostComment[];
+}
+
+// The start of the first code block, shown on cards in place of flattened text
+export interface CodeSnippet {
+  language?: string;
+  code: string;
+  truncated: boolean;
+}
+
+export interface PostOrigin {
+  id: string;
+  label: string;
+}
+
 export interface Post {
   metadata: PostMetadata;
   content: string;
   attachments: PostAttachment[];
   engagement: {
     totalReactions: number;
+    totalComments: number;
+    reactions?: ReactionBreakdown;
   };
+  // Only set when the whole file was parsed, not for posts served from the index
+  comments?: PostComment[];
+  codeSnippet?: CodeSnippet;
   fileName: string;
   path: string;
+  // Set when the feed merges several sources
+  origin?: PostOrigin;
+}
+
+export interface PostIndexEntry {
+  path: string;
+  fileName: string;
+  sha: string;
+  metadata: PostMetadata;
+  preview: string;
+  attachments: PostAttachment[];
+  comments?: number;
+  codeSnippet?: CodeSnippet;
+}
+
+export interface PostIndexManifest {
+  version: number;
+  generatedAt: string;
+  total: number;
+  shardSize: number;
+  shards: string[];
+  // Shard of each indexed post by relative path, so lookups don't depend on the live listing's order
+  paths: Record<string, number>;
+}
+
+// A problem found while loading a post file. Errors mean the post was skipped,
+// warnings mean it loaded with some fields defaulted or coerced.
+export interface PostDiagnostic {
+  fileName: string;
+  path: string;
+  severity: 'error' | 'warning';
+  // Frontmatter field the problem is about, when there is one
+  field?: string;
+  message: string;
+}
+
+// A commit that touched a post file
+export interface PostRevision {
+  sha: string;
+  message: string;
+  author: string;
+  date: string;
+  url?: string;
+}
+
+export interface PostsPage {
+  posts: Post[];
+  hasMore: boolean;
+  diagnostics: PostDiagnostic[];
 }
 
 export interface GitHubFile {
@@ -55,11 +141,123 @@ export interface GitHubContentsResponse {
   encoding?: string;
 }
 
+export interface GitHubTreeEntry {
+  path: string;
+  mode: string;
+  type: 'blob' | 'tree' | 'commit';
+  sha: string;
+  size?: number;
+  url: string;
+}
+
+export interface GitHubTreeResponse {
+  sha: string;
+  url: string;
+  tree: GitHubTreeEntry[];
+  truncated: boolean;
+}
+
+export interface GitHubBlobResponse {
+  sha: string;
+  size: number;
+  url: string;
+  content: string;
+  encoding: 'base64' | 'utf-8';
+}
+
+export interface GitHubCommitResponse {
+  sha: string;
+  html_url: string;
+  commit: {
+    message: string;
+    tree: {
+      sha: string;
+    };
+    author?: {
+      name: string;
+      date: string;
+    };
+    committer: {
+      name: string;
+      date: string;
+    };
+  };
+}
+
+export interface GitHubCompareFile {
+  filename: string;
+  status: 'added' | 'removed' | 'modified' | 'renamed' | 'copied' | 'changed' | 'unchanged';
+  sha: string;
+  previous_filename?: string;
+}
+
+export interface GitHubCompareResponse {
+  status: 'ahead' | 'behind' | 'identical' | 'diverged';
+  ahead_by: number;
+  behind_by: number;
+  total_commits: number;
+  files?: GitHubCompareFile[];
+}
+
+export interface GitHubRefResponse {
+  name: string;
+  commit: {
+    sha: string;
+    url: string;
+  };
+}
+
+export interface GitLabTreeEntry {
+  id: string;
+  name: string;
+  type: 'blob' | 'tree' | 'commit';
+  path: string;
+  mode: string;
+}
+
+export interface GiteaTreeResponse {
+  sha: string;
+  url: string;
+  tree: GitHubTreeEntry[];
+  truncated: boolean;
+  page: number;
+  total_count: number;
+}
+
+export interface PostFileEntry {
+  name: string;
+  path: string;
+  sha: string;
+  size: number;
+}
+
 export interface FeedConfig {
+  source?: string;
+  repositoryUrl: string;
+  baseUrl?: string;
+  owner: string;
+  repo: string;
+  postsPath: string;
+  ref?: string;
+  asOf?: string;
+  token?: string;
+  concurrency?: number;
+  watch?: boolean;
+  sources?: FeedSourceConfig[];
+  disabledSources?: string[];
+}
+
+// An additional repository merged into the timeline next to the main one
+export interface FeedSourceConfig {
+  id: string;
+  label?: string;
+  source?: string;
   repositoryUrl: string;
+  baseUrl?: string;
   owner: string;
   repo: string;
   postsPath: string;
+  ref?: string;
 }
 
 export interface PaginationInfo {
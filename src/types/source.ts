@@ -0,0 +1,59 @@
+import { FeedConfig, Post, PostRevision, PostsPage } from './post';
+import type { RequestPriority, RequestQueueState } from '@/lib/request-queue';
+
+export interface PostSourceCapabilities {
+  mode: 'local' | 'remote';
+  rateLimited: boolean;
+  cache: boolean;
+  preload: boolean;
+  refs: boolean;
+  // Can be polled for posts added since the feed was loaded
+  watch: boolean;
+  // Can list the commits that touched a post and read older versions
+  history: boolean;
+}
+
+export interface PostSourceStats {
+  rateLimit?: {
+    remaining: number;
+    limit: number;
+    resetTime: number;
+    authenticated: boolean;
+  };
+  cache?: {
+    size: number;
+    entries: Array<{ url: string; age: number; hasEtag: boolean }>;
+  };
+  queue?: RequestQueueState;
+}
+
+export type PostChange =
+  | { type: 'upsert'; post: Post }
+  | { type: 'remove'; path: string };
+
+export interface PostSource {
+  readonly id: string;
+  readonly label: string;
+  readonly capabilities: PostSourceCapabilities;
+  getPosts(page: number, pageSize: number, priority?: RequestPriority): Promise<PostsPage>;
+  getFileContent(path: string): Promise<string>;
+  validate(): Promise<boolean>;
+  getStats(): PostSourceStats;
+  subscribeStats?(listener: (stats: PostSourceStats) => void): () => void;
+  checkForNewPosts?(): Promise<Post[]>;
+  getFileHistory?(path: string): Promise<PostRevision[]>;
+  getFileContentAt?(path: string, revision: string): Promise<string | null>;
+  // Pushes added, edited and deleted posts for sources that can watch their content
+  subscribeChanges?(listener: (change: PostChange) => void): () => void;
+  clearCache(): void;
+  clearExpiredCache(): number;
+  cancel(): void;
+}
+
+export interface PostSourceDefinition {
+  id: string;
+  label: string;
+  create: (config: FeedConfig) => PostSource;
+  // Used by the `auto` source to pick this backend when it is usable in the current environment
+  detect?: () => boolean;
+}
@@ -0,0 +1,167 @@
+import { after, before, describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import { FeedConfig } from '@/types/post';
+import { GitLabSource } from '@/lib/sources/gitlab-source';
+import { GiteaSource } from '@/lib/sources/gitea-source';
+import { startMockServer, MockServer } from './mock-server';
+
+const post = (title: string, date: string) => `---
+title: "${title}"
+author: "Tester"
+date: "${date}"
+feedName: "Mock Feed"
+feedType: "group"
+postId: "${title.toLowerCase().replace(/\s+/g, '_')}"
+---
+
+Body of ${title}.
+`;
+
+const POSTS: Record<string, string> = {
+  'posts/2024-12-15_10-30-00_newer.mdx': post('Newer Post', '2024-12-15T10:30:00Z'),
+  'posts/2024-12-14_09-00-00_older.mdx': post('Older Post', '2024-12-14T09:00:00Z'),
+};
+
+const config = (baseUrl: string, overrides: Partial<FeedConfig> = {}): FeedConfig => ({
+  source: 'auto',
+  repositoryUrl: 'https://git.example.com/team/archive',
+  baseUrl,
+  owner: 'team',
+  repo: 'archive',
+  postsPath: 'posts',
+  token: 'secret',
+  ...overrides,
+});
+
+describe('GitLabSource', () => {
+  let server: MockServer;
+  const project = '/api/v4/projects/team%2Farchive';
+
+  before(async () => {
+    server = await startMockServer((path, baseUrl) => {
+      const url = new URL(path, baseUrl);
+      if (url.pathname === `${project}/repository/commits`) {
+        return { body: url.searchParams.get('until') === '2024-12-14T23:59:59Z' ? [{ id: 'snapshot-sha' }] : [] };
+      }
+      if (url.pathname === `${project}/repository/tree` && url.searchParams.get('ref') === 'snapshot-sha') {
+        return { body: [{ id: 'sha-older', name: '2024-12-14_09-00-00_older.mdx', path: 'posts/2024-12-14_09-00-00_older.mdx', type: 'blob' }] };
+      }
+      if (url.pathname === `${project}/repository/tree`) {
+        // Keyset pagination: the first page links to the second through the Link header
+        if (url.searchParams.get('page_token') === 'next') {
+          return { body: [{ id: 'sha-older', name: '2024-12-14_09-00-00_older.mdx', path: 'posts/2024-12-14_09-00-00_older.mdx', type: 'blob' }] };
+        }
+        return {
+          headers: { Link: `<${baseUrl}${project}/repository/tree?page_token=next>; rel="next"` },
+          body: [
+            { id: 'sha-newer', name: '2024-12-15_10-30-00_newer.mdx', path: 'posts/2024-12-15_10-30-00_newer.mdx', type: 'blob' },
+            { id: 'sha-images', name: 'images', path: 'posts/images', type: 'tree' },
+          ],
+        };
+      }
+      const raw = url.pathname.match(new RegExp(`^${project}/repository/files/(.+)/raw$`));
+      if (raw) {
+        const content = POSTS[decodeURIComponent(raw[1])];
+        return content ? { body: content } : undefined;
+      }
+      if (url.pathname === project) {
+        return { body: { id: 1, path_with_namespace: 'team/archive' } };
+      }
+      return undefined;
+    });
+  });
+
+  after(() => server.close());
+
+  it('lists posts across tree pages and reads their content', async () => {
+    const source = new GitLabSource(config(server.url));
+    const { posts, hasMore } = await source.getPosts(1, 10);
+
+    assert.deepEqual(posts.map(p => p.metadata.title), ['Newer Post', 'Older Post']);
+    assert.equal(hasMore, false);
+    assert.equal(posts[0].metadata.feedName, 'Mock Feed');
+    assert.ok(server.requests.every(request => request.headers['private-token'] === 'secret'));
+  });
+
+  it('reads a single file and validates the project', async () => {
+    const source = new GitLabSource(config(server.url));
+    assert.match(await source.getFileContent('posts/2024-12-14_09-00-00_older.mdx'), /Body of Older Post/);
+    assert.equal(await source.validate(), true);
+    assert.equal(await new GitLabSource(config(server.url, { owner: 'missing' })).validate(), false);
+  });
+
+  it('reads a snapshot from the last commit before the date', async () => {
+    const source = new GitLabSource(config(server.url, { asOf: '2024-12-14' }));
+    const { posts } = await source.getPosts(1, 10);
+
+    assert.deepEqual(posts.map(p => p.metadata.title), ['Older Post']);
+    assert.ok(server.requests.some(request => request.url?.includes('/raw?ref=snapshot-sha')));
+    await assert.rejects(new GitLabSource(config(server.url, { asOf: '2020-01-01' })).getPosts(1, 10), { status: 404 });
+  });
+});
+
+describe('GiteaSource', () => {
+  let server: MockServer;
+  const repo = '/api/v1/repos/team/archive';
+
+  before(async () => {
+    server = await startMockServer((path, baseUrl) => {
+      const url = new URL(path, baseUrl);
+      if (url.pathname === repo) {
+        return { body: { default_branch: 'main' } };
+      }
+      if (url.pathname === `${repo}/commits` && url.searchParams.get('sha') === 'main') {
+        return { body: url.searchParams.get('until') === '2024-12-14T23:59:59Z' ? [{ sha: 'snapshot-sha' }] : [] };
+      }
+      if (url.pathname === `${repo}/git/trees/snapshot-sha`) {
+        return { body: { sha: 'snapshot-sha', tree: [{ path: 'posts/2024-12-14_09-00-00_older.mdx', type: 'blob', sha: 'sha-older', size: 200 }], total_count: 1 } };
+      }
+      if (url.pathname === `${repo}/git/trees/main`) {
+        // Recursive trees are paged, with the total entry count in the body
+        const page = url.searchParams.get('page');
+        const tree = page === '1'
+          ? [
+            { path: 'README.md', type: 'blob', sha: 'sha-readme', size: 10 },
+            { path: 'posts/2024-12-15_10-30-00_newer.mdx', type: 'blob', sha: 'sha-newer', size: 200 },
+          ]
+          : page === '2'
+            ? [{ path: 'posts/2024-12-14_09-00-00_older.mdx', type: 'blob', sha: 'sha-older', size: 200 }]
+            : [];
+        return { body: { sha: 'main', tree, total_count: 3 } };
+      }
+      const raw = url.pathname.match(new RegExp(`^${repo}/raw/(.+)$`));
+      if (raw && ['main', 'snapshot-sha'].includes(url.searchParams.get('ref') || '')) {
+        const content = POSTS[decodeURIComponent(raw[1])];
+        return content ? { body: content } : undefined;
+      }
+      return undefined;
+    });
+  });
+
+  after(() => server.close());
+
+  it('lists posts on the default branch and reads their content', async () => {
+    const source = new GiteaSource(config(server.url));
+    const { posts, hasMore } = await source.getPosts(1, 1);
+
+    assert.deepEqual(posts.map(p => p.metadata.title), ['Newer Post']);
+    assert.equal(hasMore, true);
+    assert.deepEqual((await source.getPosts(2, 1)).posts.map(p => p.metadata.title), ['Older Post']);
+    assert.ok(server.requests.every(request => request.headers.authorization === 'token secret'));
+  });
+
+  it('reports missing files and repositories', async () => {
+    const source = new GiteaSource(config(server.url));
+    await assert.rejects(source.getFileContent('posts/missing.mdx'), { name: 'GitHostAPIError', status: 404 });
+    assert.equal(await new GiteaSource(config(server.url, { repo: 'missing' })).validate(), false);
+  });
+
+  it('reads a snapshot from the last commit before the date', async () => {
+    const source = new GiteaSource(config(server.url, { asOf: '2024-12-14' }));
+    const { posts } = await source.getPosts(1, 10);
+
+    assert.deepEqual(posts.map(p => p.metadata.title), ['Older Post']);
+    assert.ok(server.requests.some(request => request.url?.endsWith('?ref=snapshot-sha')));
+    await assert.rejects(new GiteaSource(config(server.url, { asOf: '2020-01-01' })).getPosts(1, 10), { status: 404 });
+  });
+});
@@ -0,0 +1,29 @@
+import { describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import { hasMdxComponents } from '@/lib/mdx-render';
+
+describe('hasMdxComponents', () => {
+  it('treats code and braces in a programming post as plain markdown', () => {
+    const post = [
+      'Generics in Java look like `List<String>`, and config is often `{a: 1}` or {a: 1}.',
+      '',
+      '```java',
+      'List<String> names = new ArrayList<>();',
+      'Map<String, Integer> counts = Map.of("a", 1);',
+      '<Callout>inside a fence</Callout>',
+      '```',
+    ].join('\n');
+
+    assert.equal(hasMdxComponents(post), false);
+  });
+
+  it('ignores components that are not allowlisted', () => {
+    assert.equal(hasMdxComponents('Hello <Widget /> world'), false);
+  });
+
+  it('finds allowlisted components in blocks and inline', () => {
+    assert.equal(hasMdxComponents('<Callout type="warning">\nCareful\n</Callout>'), true);
+    assert.equal(hasMdxComponents('Intro\n\n<Gallery />'), true);
+    assert.equal(hasMdxComponents('As they said, <Quote author="A">hi</Quote>.'), true);
+  });
+});
@@ -0,0 +1,48 @@
+import { createServer, IncomingMessage, Server } from 'node:http';
+import { AddressInfo } from 'node:net';
+
+export interface MockResponse {
+  status?: number;
+  headers?: Record<string, string>;
+  body: unknown;
+}
+
+export interface MockServer {
+  url: string;
+  requests: IncomingMessage[];
+  close: () => Promise<void>;
+}
+
+// Serves canned responses keyed by request path (with query string); anything else is a 404
+export async function startMockServer(
+  routes: (path: string, baseUrl: string) => MockResponse | undefined
+): Promise<MockServer> {
+  const requests: IncomingMessage[] = [];
+  let baseUrl = '';
+
+  const server: Server = createServer((request, response) => {
+    requests.push(request);
+    const route = routes(request.url || '/', baseUrl);
+    if (!route) {
+      response.writeHead(404, { 'Content-Type': 'application/json' });
+      response.end(JSON.stringify({ message: 'Not Found' }));
+      return;
+    }
+
+    const isText = typeof route.body === 'string';
+    response.writeHead(route.status || 200, {
+      'Content-Type': isText ? 'text/plain; charset=utf-8' : 'application/json',
+      ...route.headers,
+    });
+    response.end(isText ? route.body as string : JSON.stringify(route.body));
+  });
+
+  await new Promise<void>(resolve => server.listen(0, '127.0.0.1', resolve));
+  baseUrl = `http://127.0.0.1:${(server.address() as AddressInfo).port}`;
+
+  return {
+    url: baseUrl,
+    requests,
+    close: () => new Promise(resolve => server.close(() => resolve())),
+  };
+}
@@ -0,0 +1,45 @@
+import { describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import fs from 'node:fs';
+import path from 'node:path';
+import { parsePostFile } from '@/lib/mdx-parser';
+import { countComments } from '@/lib/post-document';
+import { PostComment } from '@/types/post';
+
+// Each `<name>.mdx` export variant sits next to a `<name>.expected.json` with the parts it should split into
+const FIXTURES_DIR = path.join(__dirname, 'fixtures', 'post-exports');
+
+// Comment reactions in thread order, replies right after their parent
+function flattenReactions(comments: PostComment[]): Array<number | null> {
+  return comments.flatMap(comment => [comment.reactions ?? null, ...flattenReactions(comment.replies)]);
+}
+
+const fixtures = fs.readdirSync(FIXTURES_DIR).filter(name => name.endsWith('.mdx')).sort();
+
+describe('parsePostDocument fixtures', () => {
+  it('has an expectation for every export variant', () => {
+    assert.ok(fixtures.length > 0);
+    for (const name of fixtures) {
+      assert.ok(fs.existsSync(path.join(FIXTURES_DIR, name.replace(/\.mdx$/, '.expected.json'))), `${name} has no expectation`);
+    }
+  });
+
+  for (const name of fixtures) {
+    it(name, () => {
+      const { document } = parsePostFile(fs.readFileSync(path.join(FIXTURES_DIR, name), 'utf-8'));
+      const expected = JSON.parse(fs.readFileSync(path.join(FIXTURES_DIR, name.replace(/\.mdx$/, '.expected.json')), 'utf-8'));
+
+      assert.equal(document.body, expected.body, 'body');
+      assert.equal(document.preview, expected.preview, 'preview');
+      assert.deepEqual(document.attachments, expected.attachments, 'attachments');
+      assert.deepEqual(document.engagement, expected.engagement, 'engagement');
+      assert.equal(document.footer ?? null, expected.footer, 'footer');
+      assert.deepEqual(document.tags, expected.tags, 'tags');
+      assert.equal(countComments(document.comments), expected.commentCount, 'comments');
+      assert.deepEqual(document.codeSnippet, expected.codeSnippet, 'code snippet');
+      if (expected.commentReactions) {
+        assert.deepEqual(flattenReactions(document.comments), expected.commentReactions, 'comment reactions');
+      }
+    });
+  }
+});
@@ -0,0 +1,74 @@
+import { describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import { PostIndexEntry, PostIndexManifest } from '@/types/post';
+import { PostIndexReader, POSTS_INDEX_VERSION } from '@/lib/posts-index';
+
+const entry = (name: string): PostIndexEntry => ({
+  path: `2024/${name}`,
+  fileName: name,
+  sha: `sha-${name}`,
+  metadata: {
+    title: name,
+    author: 'Tester',
+    authorId: '1',
+    date: '2024-01-01T00:00:00.000Z',
+    feedName: 'Feed',
+    feedType: 'group',
+    postId: name,
+    reactions: 0,
+  },
+  preview: `Preview of ${name}`,
+  attachments: [],
+});
+
+// Two shards of two posts each, newest first
+const shards = [
+  [entry('2024-01-04_a.mdx'), entry('2024-01-03_b.mdx')],
+  [entry('2024-01-02_c.mdx'), entry('2024-01-01_d.mdx')],
+];
+
+const manifest: PostIndexManifest = {
+  version: POSTS_INDEX_VERSION,
+  generatedAt: new Date().toISOString(),
+  total: 4,
+  shardSize: 2,
+  shards: ['0.json', '1.json'],
+  paths: Object.fromEntries(shards.flatMap((shard, index) => shard.map(e => [e.path, index]))),
+};
+
+function createReader() {
+  const read: string[] = [];
+  const reader = new PostIndexReader(manifest, 'posts', async name => {
+    read.push(name);
+    return JSON.stringify(shards[parseInt(name)]);
+  });
+  return { reader, read };
+}
+
+const file = (e: PostIndexEntry) => ({ path: `posts/${e.path}`, sha: e.sha });
+
+describe('PostIndexReader', () => {
+  it('finds entries by path when newer posts shift the listing', async () => {
+    const { reader, read } = createReader();
+    // Two posts newer than the index push the last two indexed posts onto the second page of three
+    const page = [file(shards[0][1]), file(shards[1][0]), file(shards[1][1])];
+
+    const posts = await reader.lookup(page);
+
+    assert.deepEqual(Array.from(posts.keys()), page.map(f => f.path));
+    assert.equal(posts.get(page[1].path)?.content, 'Preview of 2024-01-02_c.mdx');
+    assert.deepEqual(read.sort(), ['0.json', '1.json']);
+  });
+
+  it('skips posts that are not indexed or changed since the build', async () => {
+    const { reader, read } = createReader();
+    const posts = await reader.lookup([
+      { path: 'posts/2024/2024-01-05_new.mdx', sha: 'sha-new' },
+      { path: `posts/${shards[1][0].path}`, sha: 'edited' },
+      file(shards[1][1]),
+    ]);
+
+    assert.deepEqual(Array.from(posts.keys()), [`posts/${shards[1][1].path}`]);
+    assert.deepEqual(read, ['1.json']);
+  });
+});